@@ -1,86 +1,209 @@
 // Neuro-Somatic Feedback App - Main Application
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { useMuse } from './hooks/useMuse';
 import { useAudio } from './hooks/useAudio';
 import { useSession } from './hooks/useSession';
+import { useIAFCalibration } from './hooks/useIAFCalibration';
+import { useBaseline } from './hooks/useBaseline';
 import { SessionSetup } from './components/SessionSetup';
 import { ActiveSession } from './components/ActiveSession';
 import { SessionSummary } from './components/SessionSummary';
-import type { ThresholdSettings } from './types';
+import { DEFAULT_FILTER_SETTINGS } from './lib/eeg-filter';
+import { PROTOCOLS, DEFAULT_PROTOCOL } from './lib/protocols';
+import { normalizeBandTable } from './lib/band-table';
+import { applyIAF } from './lib/iaf';
+import { BASELINE_PHASES, BASELINE_PHASE_LABELS } from './lib/baseline';
+import type { BaselinePhase, FilterSettings, ProtocolName, ProtocolSettings, SessionBaseline } from './types';
 import './App.css';
 
-// Default threshold settings
-const DEFAULT_THRESHOLD_SETTINGS: ThresholdSettings = {
-  coherenceThreshold: 0.7,
-  timeThreshold: 5000,
-};
+// Each protocol keeps its own settings so switching back restores them
+const DEFAULT_PROTOCOL_SETTINGS = Object.fromEntries(
+  Object.values(PROTOCOLS).map((p) => [p.name, { ...p.defaultSettings }])
+) as Record<ProtocolName, ProtocolSettings>;
 
 function App() {
   // Hooks
   const muse = useMuse();
   const audio = useAudio();
   const session = useSession();
+  const iafCalibration = useIAFCalibration(session.saveIAF);
 
-  // Threshold settings state
-  const [thresholdSettings, setThresholdSettings] = useState<ThresholdSettings>(DEFAULT_THRESHOLD_SETTINGS);
+  // Protocol state
+  const [protocolName, setProtocolName] = useState<ProtocolName>(DEFAULT_PROTOCOL);
+  const [protocolSettings, setProtocolSettings] = useState(DEFAULT_PROTOCOL_SETTINGS);
+  const protocol = PROTOCOLS[protocolName];
 
-  // Apply threshold settings to muse detector when they change
+  // Signal filter settings state
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
+
+  // Apply the selected protocol and its settings when they change
+  const applyProtocol = muse.setProtocol;
+  const activeSettings = protocolSettings[protocolName];
+  useEffect(() => {
+    applyProtocol(protocolName, activeSettings);
+  }, [protocolName, activeSettings, applyProtocol]);
+
+  const handleProtocolSettingsChange = useCallback(
+    (settings: ProtocolSettings) => {
+      setProtocolSettings((prev) => ({ ...prev, [protocolName]: settings }));
+    },
+    [protocolName]
+  );
+
+  // Apply filter settings to the EEG pipeline when they change
+  const applyFilterSettings = muse.setFilterSettings;
+  useEffect(() => {
+    applyFilterSettings(filterSettings);
+  }, [filterSettings, applyFilterSettings]);
+
+  // Apply the current user's band table, shifted to their alpha peak, to the EEG pipeline
+  const userBandTable = session.currentUser?.bandTable;
+  const userIAF = session.currentUser?.iaf?.frequency;
+  const bandTable = normalizeBandTable(userBandTable);
+  const applyBandTable = muse.setBandTable;
   useEffect(() => {
-    muse.setThresholdSettings(thresholdSettings);
-  }, [thresholdSettings, muse.setThresholdSettings]);
-
-  // Check if we have good electrode contact (at least 3 of 4 electrodes good/medium)
-  const hasGoodContact = (() => {
-    const { tp9, af7, af8, tp10 } = muse.electrodeStatus;
-    const goodCount = [tp9, af7, af8, tp10].filter(
-      q => q === 'good' || q === 'medium'
-    ).length;
-    return goodCount >= 3;
-  })();
+    applyBandTable(applyIAF(normalizeBandTable(userBandTable), userIAF));
+  }, [userBandTable, userIAF, applyBandTable]);
+
+  // Baseline settings - recorded at the start of each session when enabled
+  const [baselineEnabled, setBaselineEnabled] = useState(false);
+  const [baselineReference, setBaselineReference] = useState<BaselinePhase>('eyes_open');
+
+  // Chime and log each baseline step; once complete, protocols score against it
+  const { isSessionActive, logEvent, setBaseline: saveBaseline } = session;
+  const { playCue } = audio;
+  const applyBaseline = muse.setBaseline;
+  const baseline = useBaseline({
+    onPhaseStart: (phase) => {
+      playCue('chime');
+      logEvent('baseline', BASELINE_PHASE_LABELS[phase]);
+    },
+    onComplete: (result: SessionBaseline | null) => {
+      playCue('chime');
+      logEvent('baseline', result ? 'Complete' : 'Incomplete - too little clean signal');
+      if (result) {
+        saveBaseline(result);
+        applyBaseline(result.phases[result.reference]);
+      }
+    },
+  });
+  const baselineRecording = baseline.status === 'recording';
+  const baselineStep = BASELINE_PHASES.find((step) => step.phase === baseline.phase);
+
+  // Start the baseline once the session is live, so its events are logged -
+  // only for protocols that score against it
+  const { start: startBaseline, cancel: cancelBaseline } = baseline;
+  const runBaseline = baselineEnabled && protocol.inputs.includes('zBands');
+  useEffect(() => {
+    if (isSessionActive && runBaseline) {
+      startBaseline(baselineReference);
+    }
+  }, [isSessionActive, runBaseline, baselineReference, startBaseline]);
+
+  const { isActive: targetActive, rewardValid } = muse.protocolState;
 
   // Handle flow state changes for rewards
   useEffect(() => {
     if (session.isSessionActive) {
-      session.updateFlowState(muse.flowState.isActive, muse.coherence);
+      // Feedback is held while the baseline records
+      session.updateFlowState(targetActive && !baselineRecording, muse.coherence);
 
-      // Trigger reward on flow state ONLY if we have good electrode contact
-      const canReward = muse.flowState.isActive && hasGoodContact && muse.state.touching;
+      // Trigger reward ONLY while the protocol trusts its inputs (electrode contact etc.)
+      const canReward = targetActive && rewardValid && muse.state.touching && !baselineRecording;
       
       if (canReward && !audio.isRewardPlaying) {
         audio.startReward();
-      } else if ((!canReward || !muse.flowState.isActive) && audio.isRewardPlaying) {
+        session.logEvent('reward_on');
+      } else if ((!canReward || !targetActive) && audio.isRewardPlaying) {
         audio.stopReward();
+        session.logEvent('reward_off');
       }
     }
   }, [
-    muse.flowState.isActive,
+    targetActive,
     muse.coherence,
+    rewardValid,
     muse.state.touching,
-    hasGoodContact,
     session.isSessionActive,
     audio.isRewardPlaying,
+    baselineRecording,
   ]);
 
+  // Sound protocol cues as they switch on, logging any that mark session events
+  const { cues } = muse.protocolState;
+  const previousCues = useRef<Record<string, boolean>>({});
+  useEffect(() => {
+    if (isSessionActive && !baselineRecording) {
+      for (const cue of protocol.cues ?? []) {
+        if (cues[cue.key] && !previousCues.current[cue.key]) {
+          playCue(cue.sound);
+          if (cue.event) logEvent(cue.event);
+        }
+      }
+    }
+    previousCues.current = cues;
+  }, [cues, protocol, isSessionActive, baselineRecording, playCue, logEvent]);
+
+  // Log the adaptive threshold as auto mode moves it
+  const { threshold } = muse.protocolState;
+  const autoThreshold = activeSettings.autoThreshold === 'on';
+  const thresholdControl = protocol.controls.find((c) => c.key === protocol.rewardThreshold?.key);
+  const { logThreshold } = session;
+  useEffect(() => {
+    if (isSessionActive && autoThreshold && threshold !== null) {
+      logThreshold(threshold);
+    }
+  }, [threshold, isSessionActive, autoThreshold, logThreshold]);
+
+  // Sample heart rate for the session graph - the duration tick keeps it
+  // sampling while the value holds steady or no beats are found
+  const heartRate = muse.state.heart?.heartRate ?? null;
+  const { logHeartRate, sessionDuration } = session;
+  useEffect(() => {
+    if (isSessionActive) logHeartRate(heartRate);
+  }, [isSessionActive, heartRate, sessionDuration, logHeartRate]);
+
+  // Pause scoring and open a gap in the session while the headband is gone
+  const museConnected = muse.state.connected;
+  const { setSignalLost } = session;
+  useEffect(() => {
+    if (isSessionActive) setSignalLost(!museConnected);
+  }, [isSessionActive, museConnected, setSignalLost]);
+
+  // Sample the parts of a composite score for the session record
+  const { components } = muse.protocolState;
+  const { logComponents } = session;
+  useEffect(() => {
+    if (isSessionActive) logComponents(components);
+  }, [isSessionActive, components, logComponents]);
+
   // Handle start session
   const handleStartSession = useCallback(async () => {
     await audio.init();
     if (audio.entrainmentEnabled) {
       await audio.setEntrainmentEnabled(true);
     }
-    session.startSession();
-  }, [audio, session]);
+    applyBaseline(null);
+    session.startSession({
+      name: protocol.name,
+      label: protocol.label,
+      settings: protocolSettings[protocol.name],
+    });
+  }, [audio, session, protocol, protocolSettings, applyBaseline]);
 
   // Handle end session
   const handleEndSession = useCallback(() => {
+    cancelBaseline();
     audio.stopReward();
     audio.setEntrainmentEnabled(false);
     session.endSession();
-  }, [audio, session]);
+  }, [audio, session, cancelBaseline]);
 
   // Handle new session
   const handleNewSession = useCallback(() => {
+    session.clearStorageError();
     session.setScreen('setup');
   }, [session]);
 
@@ -102,6 +225,8 @@ function App() {
             electrodeStatus={muse.electrodeStatus}
             onConnectBluetooth={muse.connectBluetooth}
             onConnectOSC={muse.connectOSC}
+            onConnectReplay={muse.connectReplay}
+            onConnectSimulator={muse.connectSimulator}
             onDisconnect={muse.disconnect}
             isBluetoothAvailable={muse.isBluetoothAvailable}
             connectionError={muse.error}
@@ -129,14 +254,30 @@ function App() {
               })
             }
             onIsochronicToneRemove={audio.removeIsochronicTone}
-            // Threshold settings
-            thresholdSettings={thresholdSettings}
-            onThresholdSettingsChange={setThresholdSettings}
+            // Detection settings
+            protocolName={protocolName}
+            protocolSettings={activeSettings}
+            onProtocolChange={setProtocolName}
+            onProtocolSettingsChange={handleProtocolSettingsChange}
+            baselineEnabled={baselineEnabled}
+            baselineReference={baselineReference}
+            onBaselineEnabledChange={setBaselineEnabled}
+            onBaselineReferenceChange={setBaselineReference}
+            filterSettings={filterSettings}
+            onFilterSettingsChange={setFilterSettings}
+            bandTable={bandTable}
+            onBandTableChange={session.updateBandTable}
+            iafStatus={iafCalibration.status}
+            iafProgress={iafCalibration.progress}
+            onStartIAFCalibration={iafCalibration.start}
+            onCancelIAFCalibration={iafCalibration.cancel}
             // User
             currentUser={session.currentUser}
             users={session.users}
             onCreateUser={session.createUser}
             onSelectUser={session.selectUser}
+            onImportData={session.importData}
+            storageError={session.storageError}
             // Session
             onStartSession={handleStartSession}
           />
@@ -149,17 +290,53 @@ function App() {
             coherenceHistory={session.coherenceHistory}
             currentCoherence={muse.coherence}
             coherenceZone={muse.coherenceZone}
-            flowStateActive={muse.flowState.isActive}
+            flowStateActive={targetActive}
+            targetLabel={protocol.targetLabel}
+            zoneText={protocol.zoneText}
+            inhibits={protocol.inhibits?.map(({ key, label }) => ({
+              label,
+              active: muse.protocolState.inhibits[key] ?? false,
+            }))}
+            diagnostics={{
+              gate: muse.protocolState.gate,
+              scores: muse.protocolState.scores,
+              metrics: muse.protocolState.metrics,
+            }}
+            components={protocol.components?.map(({ key, label }) => ({
+              label,
+              ...(components[key] ?? { score: null, weight: 0 }),
+            }))}
+            threshold={
+              thresholdControl?.type === 'range' && threshold !== null
+                ? { label: thresholdControl.label, value: thresholdControl.format(threshold), auto: autoThreshold }
+                : undefined
+            }
+            breathingRate={protocol.pacedBreathing ? (activeSettings[protocol.pacedBreathing] as number) : undefined}
+            baseline={
+              baselineStep && {
+                label: baselineStep.label,
+                instruction: baselineStep.instruction,
+                remainingMs: baseline.phaseRemainingMs,
+              }
+            }
             currentStreak={session.currentStreak}
             museConnected={muse.state.connected}
+            reconnecting={muse.state.reconnecting}
             touching={muse.state.touching}
             electrodeStatus={muse.electrodeStatus}
             bands={muse.state.bandsSmooth}
-            bandsDb={muse.state.bandsDbSmooth}
+            bandTable={applyIAF(bandTable, userIAF)}
+            bandsDb={muse.state.configuredBandsDb}
+            channelBandsDb={muse.state.channelConfiguredBandsDb}
             batteryLevel={muse.state.batteryLevel}
+            posture={muse.state.posture}
+            heart={muse.state.heart}
+            heartRateHistory={session.heartRateHistory}
             entrainmentEnabled={audio.entrainmentEnabled}
             onEntrainmentToggle={handleEntrainmentToggle}
             isRewardPlaying={audio.isRewardPlaying}
+            markerCount={session.markerCount}
+            onAddMarker={() => session.addMarker()}
             onEndSession={handleEndSession}
           />
         )}
@@ -172,6 +349,9 @@ function App() {
             user={session.currentUser!}
             onNewSession={handleNewSession}
             onExportData={session.exportData}
+            onExportRawData={() => session.exportSession(session.lastSession!)}
+            onExportEDF={() => session.exportEDF(session.lastSession!)}
+            storageError={session.storageError}
           />
         )}
       </AnimatePresence>
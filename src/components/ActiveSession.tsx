@@ -1,26 +1,54 @@
 // Active Session Screen Component
 
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { CoherenceGraph } from './CoherenceGraph';
+import { HeartRateGraph } from './HeartRateGraph';
+import { BreathingPacer } from './BreathingPacer';
 import { ElectrodeStatus } from './ElectrodeStatus';
-import type { ElectrodeStatus as ElectrodeStatusType, BrainwaveBands, BrainwaveBandsDb } from '../types';
+import { EEG_CHANNEL_NAMES } from '../lib/eeg-recorder';
+import { parentCoreBand } from '../lib/band-table';
+import type {
+  ElectrodeStatus as ElectrodeStatusType,
+  BrainwaveBands,
+  BandDefinition,
+  BandValues,
+  CoherenceZone,
+  CoherenceZoneText,
+  HeadPosture,
+  HeartMetrics,
+} from '../types';
 
 interface ActiveSessionProps {
   // Session data
   duration: number;
   coherenceHistory: number[];
   currentCoherence: number;
-  coherenceZone: 'flow' | 'stabilizing' | 'noise';
+  coherenceZone: CoherenceZone;
   flowStateActive: boolean;
   currentStreak: number;
+  targetLabel?: string; // Shown while the training target is held
+  zoneText?: CoherenceZoneText;
+  inhibits?: { label: string; active: boolean }[]; // Protocol inhibit bands
+  components?: { label: string; score: number | null; weight: number }[]; // Composite score breakdown
+  baseline?: { label: string; instruction: string; remainingMs: number }; // Baseline phase being recorded
+  threshold?: { label: string; value: string; auto: boolean }; // Reward threshold, formatted
+  diagnostics: { gate: string | null; scores: Record<string, number>; metrics: Record<string, number> };
+  breathingRate?: number; // Breathing pacer, breaths/min (protocols with paced breathing)
 
   // Muse state
   museConnected: boolean;
+  reconnecting: boolean; // Retrying the headband - the session is paused meanwhile
   touching: boolean;
   electrodeStatus: ElectrodeStatusType;
   bands: BrainwaveBands;
-  bandsDb: BrainwaveBandsDb;
+  bandTable: BandDefinition[]; // Bands to show, in order
+  bandsDb: BandValues; // Keyed by band table key
+  channelBandsDb: BandValues[]; // [TP9, AF7, AF8, TP10]
   batteryLevel: number;
+  posture: HeadPosture;
+  heart: HeartMetrics | null; // PPG heart rate (Muse 2 / Muse S)
+  heartRateHistory: (number | null)[];
 
   // Audio
   entrainmentEnabled: boolean;
@@ -28,6 +56,8 @@ interface ActiveSessionProps {
   isRewardPlaying: boolean;
 
   // Controls
+  markerCount: number;
+  onAddMarker: () => void;
   onEndSession: () => void;
 }
 
@@ -38,18 +68,37 @@ export function ActiveSession({
   coherenceZone,
   flowStateActive,
   currentStreak,
+  targetLabel = 'Flow State',
+  zoneText,
+  inhibits = [],
+  components = [],
+  baseline,
+  threshold,
+  diagnostics,
+  breathingRate,
   museConnected,
+  reconnecting,
   touching,
   electrodeStatus,
   bands: _bands, // Keep for potential future use
+  bandTable,
   bandsDb,
+  channelBandsDb,
   batteryLevel,
+  posture,
+  heart,
+  heartRateHistory,
   entrainmentEnabled,
   onEntrainmentToggle,
   isRewardPlaying,
+  markerCount,
+  onAddMarker,
   onEndSession,
 }: ActiveSessionProps) {
   void _bands; // Silence unused warning
+  const [showElectrodes, setShowElectrodes] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
   // Format time display
   const formatTime = (ms: number) => {
     const totalSeconds = Math.floor(ms / 1000);
@@ -103,26 +152,54 @@ export function ActiveSession({
         <ElectrodeStatus status={electrodeStatus} compact />
       </div>
 
-      {/* Live Brainwave Bars - showing dB values */}
-      <div className="brainwave-bars">
-        {(['delta', 'theta', 'alpha', 'beta', 'gamma'] as const).map((band) => {
-          const dbVal = bandsDb[band];
-          // Map dB range (50-150 dB) to bar width (0-100%) - matches Mind Monitor range
-          const barWidth = Math.max(0, Math.min(100, ((dbVal - 50) / 100) * 100));
-          const symbol = { delta: 'δ', theta: 'θ', alpha: 'α', beta: 'β', gamma: 'γ' }[band];
-          
+      {/* Live Brainwave Bars - showing dB values, click to expand per electrode */}
+      <div className={`brainwave-bars ${showElectrodes ? 'expanded' : ''}`}>
+        {bandTable.map((definition) => {
+          const band = definition.key;
+          const dbVal = bandsDb[band] ?? 0;
+          // Extra bands take the color of the core band they sit in
+          const color = parentCoreBand(definition, bandTable);
+
           return (
-            <div className="band-bar" key={band}>
-              <span className="band-label">{symbol}</span>
+            <div className="band-bar" key={band} title={`${definition.name} ${definition.low}–${definition.high} Hz`}>
+              <span className="band-label">{definition.symbol}</span>
               <motion.div 
-                className={`band-fill ${band}`}
-                animate={{ width: `${barWidth}%` }}
+                className={`band-fill ${color}`}
+                animate={{ width: `${dbToBarWidth(dbVal)}%` }}
                 transition={{ duration: 0.15 }}
               />
               <span className="band-value">{dbVal.toFixed(0)}</span>
+
+              {showElectrodes && (
+                <div className="band-channels">
+                  {EEG_CHANNEL_NAMES.map((name, ch) => {
+                    const channelDb = channelBandsDb[ch]?.[band] ?? 0;
+                    return (
+                      <div className="band-channel" key={name}>
+                        <span className="band-channel-label">{name}</span>
+                        <div className="band-channel-track">
+                          <motion.div
+                            className={`band-fill ${color}`}
+                            animate={{ width: `${dbToBarWidth(channelDb)}%` }}
+                            transition={{ duration: 0.15 }}
+                          />
+                        </div>
+                        <span className="band-value">{channelDb.toFixed(0)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
           );
         })}
+        <button
+          className="band-toggle"
+          onClick={() => setShowElectrodes(!showElectrodes)}
+          title={showElectrodes ? 'Show average across electrodes' : 'Show each electrode'}
+        >
+          {showElectrodes ? '▴' : '▾'}
+        </button>
       </div>
 
       {/* Main Content - Coherence Graph */}
@@ -133,8 +210,31 @@ export function ActiveSession({
           coherenceZone={coherenceZone}
           duration={duration}
           isActive={true}
+          zoneText={zoneText}
         />
 
+        {/* Heart Rate - only with a PPG sensor */}
+        {(heart || heartRateHistory.some((bpm) => bpm !== null)) && (
+          <HeartRateGraph heartRateHistory={heartRateHistory} heart={heart} />
+        )}
+
+        {/* Breathing Pacer - restarts on the in-breath when the rate changes */}
+        {breathingRate !== undefined && <BreathingPacer key={breathingRate} breathsPerMinute={breathingRate} />}
+
+        {/* Baseline Phase - feedback starts once it finishes */}
+        {baseline && (
+          <motion.div
+            className="baseline-indicator"
+            key={baseline.label}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+          >
+            <span className="baseline-title">Baseline · {baseline.label}</span>
+            <span className="baseline-instruction">{baseline.instruction}</span>
+            <span className="baseline-remaining">{formatTime(baseline.remainingMs)}</span>
+          </motion.div>
+        )}
+
         {/* Flow State Indicator */}
         {flowStateActive && (
           <motion.div
@@ -144,11 +244,93 @@ export function ActiveSession({
             exit={{ opacity: 0, scale: 0.8 }}
           >
             <div className="flow-glow" />
-            <span className="flow-text">Flow State</span>
+            <span className="flow-text">{targetLabel}</span>
             <span className="flow-streak">{formatTime(currentStreak)}</span>
           </motion.div>
         )}
 
+        {/* Inhibit Indicators - lit while an inhibit band is over threshold */}
+        {inhibits.length > 0 && (
+          <div className="inhibit-indicators">
+            {inhibits.map(({ label, active }) => (
+              <span
+                key={label}
+                className={`inhibit-chip ${active ? 'active' : ''}`}
+                title={active ? `${label} over inhibit threshold - reward held` : `${label} within limit`}
+              >
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Score Breakdown - each part of a composite score and its share */}
+        {components.length > 0 && (
+          <div className="score-breakdown">
+            {components.map(({ label, score, weight }) => (
+              <div
+                key={label}
+                className={`breakdown-row ${score === null ? 'unavailable' : ''}`}
+                title={
+                  score === null
+                    ? `${label} - waiting for input`
+                    : `${label} weighs ${Math.round(weight * 100)}% of the score`
+                }
+              >
+                <span className="breakdown-label">{label}</span>
+                <div className="breakdown-track">
+                  <motion.div
+                    className="breakdown-fill"
+                    animate={{ width: `${(score ?? 0) * 100}%` }}
+                    transition={{ duration: 0.3 }}
+                  />
+                </div>
+                <span className="breakdown-value">{score === null ? '--' : Math.round(score * 100)}</span>
+                <span className="breakdown-weight">×{Math.round(weight * 100)}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Diagnostics - what is holding the score back, and the values behind it */}
+        <div className="diagnostics-panel">
+          <button
+            className="diagnostics-toggle"
+            onClick={() => setShowDiagnostics(!showDiagnostics)}
+            title={showDiagnostics ? 'Hide score diagnostics' : 'Show the values behind the score'}
+          >
+            <span className="diagnostics-title">Diagnostics</span>
+            <span className={`diagnostics-gate ${diagnostics.gate ? 'blocked' : ''}`}>
+              {diagnostics.gate ?? 'Target conditions met'}
+            </span>
+            <span>{showDiagnostics ? '▴' : '▾'}</span>
+          </button>
+          {showDiagnostics && (
+            <div className="diagnostics-values">
+              {Object.entries({ ...diagnostics.scores, ...diagnostics.metrics }).map(([key, value]) => (
+                <div className="diagnostics-row" key={key}>
+                  <span>{formatDiagnosticKey(key)}</span>
+                  <span className="diagnostics-value">{formatDiagnosticValue(value)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Threshold Indicator */}
+        {threshold && (
+          <div
+            className="threshold-indicator"
+            title={threshold.auto ? 'Adapting to hold the target reward rate' : 'Fixed threshold'}
+          >
+            <span className="threshold-label">{threshold.label}</span>
+            <span className="threshold-value">
+              {threshold.value}
+              {threshold.auto && <span className="threshold-auto">auto</span>}
+            </span>
+          </div>
+        )}
+
         {/* Reward Playing Indicator */}
         {isRewardPlaying && (
           <motion.div
@@ -165,15 +347,20 @@ export function ActiveSession({
         )}
 
         {/* Connection Warning */}
-        {(!museConnected || !touching) && (
+        {/* Lying down is a valid way to practice, so only slumping is flagged */}
+        {(!museConnected || !touching || posture === 'slumped') && (
           <div className="connection-warning">
             <svg viewBox="0 0 24 24" fill="currentColor" width="24" height="24">
               <path d="M1 21h22L12 2 1 21zm12-3h-2v-2h2v2zm0-4h-2v-4h2v4z" />
             </svg>
             <span>
               {!museConnected
-                ? 'Connection lost - reconnect Muse'
-                : 'Adjust headband position'}
+                ? reconnecting
+                  ? 'Signal lost - reconnecting to Muse… (session paused)'
+                  : 'Connection lost - reconnect Muse (session paused)'
+                : !touching
+                  ? 'Adjust headband position'
+                  : 'Head tilted forward - sit upright'}
             </span>
           </div>
         )}
@@ -204,7 +391,36 @@ export function ActiveSession({
           </svg>
           <span className="btn-label">Guidance Audio</span>
         </button>
+
+        <button
+          className="btn btn-icon marker-button"
+          onClick={onAddMarker}
+          title="Add a marker at the current time"
+        >
+          <svg viewBox="0 0 24 24" fill="currentColor" width="24" height="24">
+            <path d="M14.4 6L14 4H5v17h2v-7h5.6l.4 2h7V6z" />
+          </svg>
+          <span className="btn-label">
+            Marker{markerCount > 0 ? ` (${markerCount})` : ''}
+          </span>
+        </button>
       </footer>
     </motion.div>
   );
 }
+
+// 'betaAlphaRatio' -> 'Beta alpha ratio'
+function formatDiagnosticKey(key: string): string {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Variances are tiny, so small values keep their significant digits
+function formatDiagnosticValue(value: number): string {
+  return value !== 0 && Math.abs(value) < 0.01 ? value.toExponential(1) : value.toFixed(2);
+}
+
+// Map dB range (50-150 dB) to bar width (0-100%) - matches Mind Monitor range
+function dbToBarWidth(db: number): number {
+  return Math.max(0, Math.min(100, ((db - 50) / 100) * 100));
+}
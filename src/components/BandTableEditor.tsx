@@ -0,0 +1,132 @@
+// Band Table Editor Component - Edits a user's frequency band definitions
+
+import { useState } from 'react';
+import {
+  BAND_PRESETS,
+  DEFAULT_BAND_TABLE,
+  MAX_BANDS,
+  MAX_BAND_FREQ,
+  MIN_BAND_FREQ,
+  isCoreBand,
+  normalizeBandTable,
+  parentCoreBand,
+} from '../lib/band-table';
+import type { BandDefinition } from '../types';
+
+interface BandTableEditorProps {
+  table: BandDefinition[];
+  onSave: (table: BandDefinition[]) => void;
+}
+
+export function BandTableEditor({ table, onSave }: BandTableEditorProps) {
+  // Edits stay local until saved so half-typed edges aren't clamped mid-entry
+  const [draft, setDraft] = useState<BandDefinition[]>(table);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(table);
+
+  const updateBand = (key: string, partial: Partial<BandDefinition>) => {
+    setDraft((prev) => prev.map((band) => (band.key === key ? { ...band, ...partial } : band)));
+  };
+
+  const addBand = (value: string) => {
+    const preset = BAND_PRESETS.find((p) => p.key === value);
+    const band: BandDefinition = preset
+      ? { ...preset }
+      : { key: `custom-${Date.now()}`, name: 'Custom', symbol: 'C', low: 10, high: 12 };
+    setDraft((prev) => normalizeBandTable([...prev, band]));
+  };
+
+  const availablePresets = BAND_PRESETS.filter((p) => !draft.some((band) => band.key === p.key));
+
+  return (
+    <div className="band-table">
+      {draft.map((band) => (
+        <div className="band-table-row" key={band.key}>
+          <span className={`band-swatch band-fill ${parentCoreBand(band, draft)}`} />
+          {isCoreBand(band.key) ? (
+            <span className="band-table-name">{band.name}</span>
+          ) : (
+            <input
+              type="text"
+              className="band-table-name"
+              value={band.name}
+              maxLength={16}
+              onChange={(e) => updateBand(band.key, { name: e.target.value, symbol: e.target.value.slice(0, 3) })}
+            />
+          )}
+          <input
+            type="number"
+            className="band-table-edge"
+            min={MIN_BAND_FREQ}
+            max={MAX_BAND_FREQ}
+            step="0.5"
+            value={band.low}
+            onChange={(e) => updateBand(band.key, { low: parseFloat(e.target.value) })}
+          />
+          <span className="band-table-dash">–</span>
+          <input
+            type="number"
+            className="band-table-edge"
+            min={MIN_BAND_FREQ}
+            max={MAX_BAND_FREQ}
+            step="0.5"
+            value={band.high}
+            onChange={(e) => updateBand(band.key, { high: parseFloat(e.target.value) })}
+          />
+          <span className="band-table-unit">Hz</span>
+          {isCoreBand(band.key) ? (
+            <span className="iso-tone-remove" />
+          ) : (
+            <button
+              type="button"
+              className="iso-tone-remove"
+              onClick={() => setDraft((prev) => prev.filter((b) => b.key !== band.key))}
+              title={`Remove ${band.name}`}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+
+      <select
+        className="setting-select"
+        value=""
+        onChange={(e) => e.target.value && addBand(e.target.value)}
+        disabled={draft.length >= MAX_BANDS}
+      >
+        <option value="">Add band…</option>
+        {availablePresets.map((preset) => (
+          <option key={preset.key} value={preset.key}>
+            {preset.name} ({preset.low}–{preset.high} Hz)
+          </option>
+        ))}
+        <option value="custom">Custom band</option>
+      </select>
+
+      <div className="band-table-actions">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => {
+            const normalized = normalizeBandTable(draft);
+            setDraft(normalized);
+            onSave(normalized);
+          }}
+          disabled={!dirty}
+        >
+          Save Bands
+        </button>
+        <button
+          type="button"
+          className="btn btn-text"
+          onClick={() => setDraft(DEFAULT_BAND_TABLE.map((band) => ({ ...band })))}
+        >
+          Standard Bands
+        </button>
+      </div>
+      <p className="setting-hint">
+        Bands are computed from the raw EEG spectrum (Bluetooth, replay and simulator) - OSC streams only the five standard bands
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// Breathing Pacer Component - paced-breathing guide for heart rhythm coherence
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+
+interface BreathingPacerProps {
+  breathsPerMinute: number;
+}
+
+const EXHALED_SCALE = 0.55;
+
+export function BreathingPacer({ breathsPerMinute }: BreathingPacerProps) {
+  // Equal in- and out-breaths; each half drives both the circle and the label
+  const halfBreathMs = 30000 / breathsPerMinute;
+  const [inhaling, setInhaling] = useState(true);
+
+  useEffect(() => {
+    const timer = setInterval(() => setInhaling((v) => !v), halfBreathMs);
+    return () => clearInterval(timer);
+  }, [halfBreathMs]);
+
+  return (
+    <div className="breathing-pacer" title={`${breathsPerMinute} breaths per minute`}>
+      <div className="pacer-ring">
+        <motion.div
+          className="pacer-circle"
+          initial={{ scale: EXHALED_SCALE }}
+          animate={{ scale: inhaling ? 1 : EXHALED_SCALE }}
+          transition={{ duration: halfBreathMs / 1000, ease: 'easeInOut' }}
+        />
+      </div>
+      <div className="pacer-text">
+        <span className="pacer-label">{inhaling ? 'Breathe in' : 'Breathe out'}</span>
+        <span className="pacer-rate">{breathsPerMinute}/min</span>
+      </div>
+    </div>
+  );
+}
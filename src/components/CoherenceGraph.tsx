@@ -2,13 +2,15 @@
 
 import { useRef, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import type { CoherenceZone, CoherenceZoneText } from '../types';
 
 interface CoherenceGraphProps {
   coherenceHistory: number[];
   currentCoherence: number;
-  coherenceZone: 'flow' | 'stabilizing' | 'noise';
+  coherenceZone: CoherenceZone;
   duration: number; // Current session duration in ms
   isActive: boolean;
+  zoneText?: CoherenceZoneText; // Override zone labels for other protocols
 }
 
 // Zone configuration with labels, descriptions, and colors
@@ -59,6 +61,7 @@ export function CoherenceGraph({
   coherenceZone,
   duration,
   isActive,
+  zoneText,
 }: CoherenceGraphProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
@@ -163,7 +166,8 @@ export function CoherenceGraph({
     Math.round((i / 3) * totalMinutes)
   );
 
-  const currentZoneConfig = ZONE_CONFIG[coherenceZone];
+  const zoneConfig = (zone: keyof typeof ZONE_CONFIG) => ({ ...ZONE_CONFIG[zone], ...zoneText?.[zone] });
+  const currentZoneConfig = zoneConfig(coherenceZone);
 
   return (
     <div className="coherence-graph">
@@ -188,7 +192,7 @@ export function CoherenceGraph({
       {/* Zone labels with icons */}
       <div className="zone-labels">
         {(['flow', 'stabilizing', 'noise'] as const).map((zone) => {
-          const config = ZONE_CONFIG[zone];
+          const config = zoneConfig(zone);
           const isActive = coherenceZone === zone;
           
           return (
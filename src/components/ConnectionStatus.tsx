@@ -1,8 +1,10 @@
 // Connection Status Component
 // Shows Muse and headphone connection status
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { SIMULATOR_SCENARIOS } from '../lib/muse-handler';
+import type { SimulatorScenarioName } from '../lib/muse-handler';
 
 interface ConnectionStatusProps {
   museConnected: boolean;
@@ -10,6 +12,8 @@ interface ConnectionStatusProps {
   connectionQuality: number;
   onConnectBluetooth: () => void;
   onConnectOSC: (url?: string) => void;
+  onConnectReplay: (file: File, speed?: number) => Promise<void>;
+  onConnectSimulator: (scenario?: SimulatorScenarioName) => void;
   onDisconnect: () => void;
   isBluetoothAvailable: boolean;
   error: string | null;
@@ -33,12 +37,17 @@ export function ConnectionStatus({
   connectionQuality,
   onConnectBluetooth,
   onConnectOSC,
+  onConnectReplay,
+  onConnectSimulator,
   onDisconnect,
   isBluetoothAvailable,
   error,
 }: ConnectionStatusProps) {
   const [showOSCHelp, setShowOSCHelp] = useState(false);
   const [oscUrl, setOscUrl] = useState('ws://localhost:8080');
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [simulatorScenario, setSimulatorScenario] = useState<SimulatorScenarioName>('calm');
+  const replayInputRef = useRef<HTMLInputElement>(null);
   const isiOSDevice = isIOS();
   const showIOSWarning = isiOSDevice && !isWebBluetoothBrowser();
 
@@ -46,6 +55,16 @@ export function ConnectionStatus({
     onConnectOSC(oscUrl || undefined);
   };
 
+  const handleReplayFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      // Failures are shown through the error prop
+      onConnectReplay(file, replaySpeed).catch(() => {});
+    }
+    // Allow choosing the same file again
+    e.target.value = '';
+  };
+
   return (
     <div className="connection-status">
       <div className="status-bar">
@@ -184,6 +203,43 @@ export function ConnectionStatus({
             </svg>
             Connect via OSC
           </button>
+          <div className="virtual-device-controls">
+            <button className="btn btn-text" onClick={() => replayInputRef.current?.click()}>
+              Replay Recording
+            </button>
+            <select
+              className="virtual-device-select"
+              value={replaySpeed}
+              onChange={(e) => setReplaySpeed(parseFloat(e.target.value))}
+              title="Playback speed"
+            >
+              {[1, 2, 5, 10].map((speed) => (
+                <option key={speed} value={speed}>{speed}×</option>
+              ))}
+            </select>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleReplayFile}
+              hidden
+            />
+          </div>
+          <div className="virtual-device-controls">
+            <button className="btn btn-text" onClick={() => onConnectSimulator(simulatorScenario)}>
+              Simulate Headband
+            </button>
+            <select
+              className="virtual-device-select"
+              value={simulatorScenario}
+              onChange={(e) => setSimulatorScenario(e.target.value as SimulatorScenarioName)}
+              title={SIMULATOR_SCENARIOS[simulatorScenario].description}
+            >
+              {Object.values(SIMULATOR_SCENARIOS).map((scenario) => (
+                <option key={scenario.name} value={scenario.name}>{scenario.label}</option>
+              ))}
+            </select>
+          </div>
         </div>
       )}
 
@@ -0,0 +1,91 @@
+// Heart Rate Graph Component - PPG heart rate and HRV alongside the coherence graph
+
+import { useRef, useEffect } from 'react';
+import type { HeartMetrics } from '../types';
+
+interface HeartRateGraphProps {
+  heartRateHistory: (number | null)[]; // bpm at 1 Hz, null while no beats are detected
+  heart: HeartMetrics | null;
+}
+
+const MIN_SPAN = 20; // bpm - keeps a steady heart rate from filling the whole height
+
+export function HeartRateGraph({ heartRateHistory, heart }: HeartRateGraphProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Draw the graph
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+
+    const width = rect.width;
+    const height = rect.height;
+    ctx.clearRect(0, 0, width, height);
+
+    const values = heartRateHistory.filter((v): v is number => v !== null);
+    if (values.length < 2) return;
+
+    // Scale to the recorded range, centered if it is narrower than MIN_SPAN
+    let low = Math.min(...values);
+    let high = Math.max(...values);
+    if (high - low < MIN_SPAN) {
+      const mid = (high + low) / 2;
+      low = mid - MIN_SPAN / 2;
+      high = mid + MIN_SPAN / 2;
+    }
+    const toY = (bpm: number) => height * (1 - (bpm - low) / (high - low));
+    const pointSpacing = width / Math.max(heartRateHistory.length - 1, 1);
+
+    // Line breaks wherever beats were lost
+    ctx.beginPath();
+    ctx.strokeStyle = 'rgba(248, 113, 113, 0.9)';
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    let drawing = false;
+    heartRateHistory.forEach((value, index) => {
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      const x = index * pointSpacing;
+      if (drawing) {
+        ctx.lineTo(x, toY(value));
+      } else {
+        ctx.moveTo(x, toY(value));
+        drawing = true;
+      }
+    });
+    ctx.stroke();
+  }, [heartRateHistory]);
+
+  return (
+    <div className="heart-graph">
+      <div className="heart-graph-header">
+        <span className="heart-rate">
+          <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
+            <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
+          </svg>
+          {heart ? `${Math.round(heart.heartRate)} bpm` : '-- bpm'}
+        </span>
+        <span className="heart-metric" title="Root mean square of successive beat-to-beat differences, last minute">
+          RMSSD {heart?.rmssd != null ? `${Math.round(heart.rmssd)} ms` : '--'}
+        </span>
+        <span className="heart-metric" title="High-frequency (0.15-0.4 Hz) heart rate variability, last 64 s">
+          HF {heart?.hfPower != null ? `${Math.round(heart.hfPower)} ms²` : '--'}
+        </span>
+      </div>
+      <canvas ref={canvasRef} className="heart-graph-canvas" />
+    </div>
+  );
+}
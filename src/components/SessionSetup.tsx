@@ -1,16 +1,28 @@
 // Session Setup Screen Component
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { ConnectionStatus } from './ConnectionStatus';
 import { ElectrodeStatus } from './ElectrodeStatus';
+import { BandTableEditor } from './BandTableEditor';
 import { BINAURAL_PRESETS } from '../hooks/useAudio';
+import { IAF_CALIBRATION_MS } from '../hooks/useIAFCalibration';
+import type { IAFCalibrationStatus } from '../hooks/useIAFCalibration';
+import { PROTOCOLS, PROTOCOL_INPUT_LABELS } from '../lib/protocols';
+import { STANDARD_IAF } from '../lib/iaf';
+import { BASELINE_DURATION_MS, BASELINE_PHASES, BASELINE_PHASE_LABELS } from '../lib/baseline';
+import type { SimulatorScenarioName } from '../lib/muse-handler';
 import type {
   EntrainmentType,
   User,
   BinauralPresetName,
   ElectrodeStatus as ElectrodeStatusType,
-  ThresholdSettings,
+  FilterSettings,
+  BandDefinition,
+  BaselinePhase,
+  NotchFrequency,
+  ProtocolName,
+  ProtocolSettings,
   IsochronicPresetName,
   IsochronicTone,
 } from '../types';
@@ -23,6 +35,8 @@ interface SessionSetupProps {
   electrodeStatus: ElectrodeStatusType;
   onConnectBluetooth: () => void;
   onConnectOSC: (url?: string) => void;
+  onConnectReplay: (file: File, speed?: number) => Promise<void>;
+  onConnectSimulator: (scenario?: SimulatorScenarioName) => void;
   onDisconnect: () => void;
   isBluetoothAvailable: boolean;
   connectionError: string | null;
@@ -45,20 +59,48 @@ interface SessionSetupProps {
   onIsochronicToneAdd: () => void;
   onIsochronicToneRemove: (id: string) => void;
 
-  // Threshold settings
-  thresholdSettings: ThresholdSettings;
-  onThresholdSettingsChange: (settings: ThresholdSettings) => void;
+  // Protocol
+  protocolName: ProtocolName;
+  protocolSettings: ProtocolSettings;
+  onProtocolChange: (name: ProtocolName) => void;
+  onProtocolSettingsChange: (settings: ProtocolSettings) => void;
+  baselineEnabled: boolean;
+  baselineReference: BaselinePhase;
+  onBaselineEnabledChange: (enabled: boolean) => void;
+  onBaselineReferenceChange: (reference: BaselinePhase) => void;
+
+  // Signal filtering
+  filterSettings: FilterSettings;
+  onFilterSettingsChange: (settings: FilterSettings) => void;
+
+  // Frequency bands
+  bandTable: BandDefinition[];
+  onBandTableChange: (table: BandDefinition[]) => void;
+  iafStatus: IAFCalibrationStatus;
+  iafProgress: number;
+  onStartIAFCalibration: () => void;
+  onCancelIAFCalibration: () => void;
 
   // User
   currentUser: User | null;
   users: User[];
   onCreateUser: (name: string) => void;
   onSelectUser: (userId: string) => void;
+  onImportData: (file: File) => Promise<{ users: number; sessions: number }>;
+  storageError: string | null;
 
   // Session
   onStartSession: () => void;
 }
 
+/**
+ * Signed band-edge shift for an IAF, e.g. "+0.5" or "−1.2"
+ */
+function formatShift(iaf: number): string {
+  const shift = iaf - STANDARD_IAF;
+  return `${shift >= 0 ? '+' : '−'}${Math.abs(shift).toFixed(1)}`;
+}
+
 export function SessionSetup({
   museConnected,
   museDeviceName,
@@ -66,6 +108,8 @@ export function SessionSetup({
   electrodeStatus,
   onConnectBluetooth,
   onConnectOSC,
+  onConnectReplay,
+  onConnectSimulator,
   onDisconnect,
   isBluetoothAvailable,
   connectionError,
@@ -85,16 +129,36 @@ export function SessionSetup({
   onIsochronicToneChange,
   onIsochronicToneAdd,
   onIsochronicToneRemove,
-  thresholdSettings,
-  onThresholdSettingsChange,
+  protocolName,
+  protocolSettings,
+  onProtocolChange,
+  onProtocolSettingsChange,
+  baselineEnabled,
+  baselineReference,
+  onBaselineEnabledChange,
+  onBaselineReferenceChange,
+  filterSettings,
+  onFilterSettingsChange,
+  bandTable,
+  onBandTableChange,
+  iafStatus,
+  iafProgress,
+  onStartIAFCalibration,
+  onCancelIAFCalibration,
   currentUser,
   users,
   onCreateUser,
   onSelectUser,
+  onImportData,
+  storageError,
   onStartSession,
 }: SessionSetupProps) {
+  const protocol = PROTOCOLS[protocolName];
+  const baselineSupported = protocol.inputs.includes('zBands');
   const [newUserName, setNewUserName] = useState('');
   const [showUserForm, setShowUserForm] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleCreateUser = () => {
     if (newUserName.trim()) {
@@ -104,6 +168,19 @@ export function SessionSetup({
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await onImportData(file);
+      setImportMessage(`Imported ${result.users} user(s) and ${result.sessions} session(s)`);
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
   const canStartSession = museConnected && currentUser;
 
   return (
@@ -125,6 +202,8 @@ export function SessionSetup({
           connectionQuality={connectionQuality}
           onConnectBluetooth={onConnectBluetooth}
           onConnectOSC={onConnectOSC}
+          onConnectReplay={onConnectReplay}
+          onConnectSimulator={onConnectSimulator}
           onDisconnect={onDisconnect}
           isBluetoothAvailable={isBluetoothAvailable}
           error={connectionError}
@@ -140,6 +219,7 @@ export function SessionSetup({
         {/* User Selection */}
         <section className="setup-section">
           <h2>User Profile</h2>
+          {storageError && <div className="error-message">{storageError}</div>}
           {currentUser ? (
             <div className="current-user">
               <span className="user-name">{currentUser.name}</span>
@@ -191,6 +271,20 @@ export function SessionSetup({
               </div>
             </div>
           )}
+
+          <div className="import-data">
+            <button className="btn btn-text" onClick={() => importInputRef.current?.click()}>
+              Import Data (JSON / Mind Monitor CSV)
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleImportFile}
+              hidden
+            />
+            {importMessage && <p className="setting-hint">{importMessage}</p>}
+          </div>
         </section>
 
         {/* Detection Settings */}
@@ -199,48 +293,216 @@ export function SessionSetup({
           <div className="settings-group">
             <div className="setting-row">
               <label className="setting-label">
-                <span>Coherence Threshold</span>
-                <span className="setting-value">{Math.round(thresholdSettings.coherenceThreshold * 100)}%</span>
+                <span>Protocol</span>
               </label>
-              <input
-                type="range"
-                min="0.2"
-                max="0.9"
-                step="0.05"
-                value={thresholdSettings.coherenceThreshold}
+              <select
+                className="setting-select"
+                value={protocolName}
+                onChange={(e) => onProtocolChange(e.target.value as ProtocolName)}
+              >
+                {Object.values(PROTOCOLS).map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <p className="setting-hint">
+                {protocol.description}. Uses {protocol.inputs.map((i) => PROTOCOL_INPUT_LABELS[i]).join(', ')}.
+              </p>
+            </div>
+
+            {protocol.controls.map((control) => (
+              <div className="setting-row" key={`${protocolName}-${control.key}`}>
+                <label className="setting-label">
+                  <span>{control.label}</span>
+                  {control.type === 'range' && (
+                    <span className="setting-value">
+                      {control.format(protocolSettings[control.key] as number)}
+                    </span>
+                  )}
+                </label>
+                {control.type === 'range' ? (
+                  <input
+                    type="range"
+                    min={control.min}
+                    max={control.max}
+                    step={control.step}
+                    value={protocolSettings[control.key] as number}
+                    onChange={(e) =>
+                      onProtocolSettingsChange({
+                        ...protocolSettings,
+                        [control.key]: parseFloat(e.target.value),
+                      })
+                    }
+                    className="setting-slider"
+                  />
+                ) : (
+                  <select
+                    className="setting-select"
+                    value={protocolSettings[control.key] as string}
+                    onChange={(e) =>
+                      onProtocolSettingsChange({
+                        ...protocolSettings,
+                        [control.key]: e.target.value,
+                      })
+                    }
+                  >
+                    {control.options.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {control.hint && <p className="setting-hint">{control.hint}</p>}
+              </div>
+            ))}
+
+            <div className="setting-row">
+              <div className="setting-label">
+                <span>Baseline ({BASELINE_DURATION_MS / 60000} min)</span>
+                <label className="toggle small">
+                  <input
+                    type="checkbox"
+                    checked={baselineEnabled && baselineSupported}
+                    disabled={!baselineSupported}
+                    onChange={(e) => onBaselineEnabledChange(e.target.checked)}
+                  />
+                  <span className="toggle-slider" />
+                </label>
+              </div>
+              {baselineEnabled && baselineSupported && (
+                <select
+                  className="setting-select"
+                  value={baselineReference}
+                  onChange={(e) => onBaselineReferenceChange(e.target.value as BaselinePhase)}
+                >
+                  {BASELINE_PHASES.map(({ phase }) => (
+                    <option key={phase} value={phase}>
+                      Score against {BASELINE_PHASE_LABELS[phase].toLowerCase()} rest
+                    </option>
+                  ))}
+                </select>
+              )}
+              <p className="setting-hint">
+                {!baselineSupported
+                  ? `${protocol.label} scores absolute values, so it has no use for a baseline`
+                  : !baselineEnabled
+                    ? 'Records eyes-open and eyes-closed rest before training so feedback is relative to your own resting levels'
+                    : 'Feedback starts after the baseline and scores z-scores against it'}
+              </p>
+            </div>
+
+            <div className="setting-row">
+              <label className="setting-label">
+                <span>Powerline Notch</span>
+              </label>
+              <select
+                className="setting-select"
+                value={filterSettings.notchFrequency ?? 'off'}
                 onChange={(e) =>
-                  onThresholdSettingsChange({
-                    ...thresholdSettings,
-                    coherenceThreshold: parseFloat(e.target.value),
+                  onFilterSettingsChange({
+                    ...filterSettings,
+                    notchFrequency: e.target.value === 'off' ? null : (parseInt(e.target.value) as NotchFrequency),
                   })
                 }
-                className="setting-slider"
-              />
-              <p className="setting-hint">Higher threshold = stricter Flow State detection</p>
+              >
+                <option value={60}>60 Hz (Americas)</option>
+                <option value={50}>50 Hz (Europe, Asia, Africa)</option>
+                <option value="off">Off</option>
+              </select>
+              <p className="setting-hint">Match your local mains frequency to remove electrical hum</p>
             </div>
 
             <div className="setting-row">
               <label className="setting-label">
-                <span>Time Threshold</span>
-                <span className="setting-value">{thresholdSettings.timeThreshold / 1000}s</span>
+                <span>Band-pass Filter</span>
+                <span className="setting-value">
+                  {filterSettings.highPass}–{filterSettings.lowPass} Hz
+                </span>
               </label>
               <input
                 type="range"
-                min="1000"
-                max="10000"
-                step="1000"
-                value={thresholdSettings.timeThreshold}
-                onChange={(e) => onThresholdSettingsChange({
-                  ...thresholdSettings,
-                  timeThreshold: parseInt(e.target.value)
-                })}
+                min="0.5"
+                max="4"
+                step="0.5"
+                value={filterSettings.highPass}
+                onChange={(e) =>
+                  onFilterSettingsChange({
+                    ...filterSettings,
+                    highPass: parseFloat(e.target.value),
+                  })
+                }
+                className="setting-slider"
+              />
+              <input
+                type="range"
+                min="30"
+                max="100"
+                step="5"
+                value={filterSettings.lowPass}
+                onChange={(e) =>
+                  onFilterSettingsChange({
+                    ...filterSettings,
+                    lowPass: parseInt(e.target.value),
+                  })
+                }
                 className="setting-slider"
               />
-              <p className="setting-hint">How long to sustain coherence before entering Flow State</p>
+              <p className="setting-hint">Removes slow drift (low edge) and muscle noise (high edge)</p>
             </div>
           </div>
         </section>
 
+        {/* Frequency Bands (saved per user) */}
+        {currentUser && (
+          <section className="setup-section">
+            <div className="section-header">
+              <h2>Frequency Bands</h2>
+              <span className="section-subtitle">{currentUser.name}</span>
+            </div>
+
+            <div className="setting-row">
+              <label className="setting-label">
+                <span>Individual Alpha Frequency</span>
+                <span className="setting-value">
+                  {currentUser.iaf ? `${currentUser.iaf.frequency.toFixed(1)} Hz` : 'Not calibrated'}
+                </span>
+              </label>
+              {iafStatus === 'recording' ? (
+                <div className="iaf-calibration">
+                  <div className="iaf-progress">
+                    <div className="iaf-progress-fill" style={{ width: `${iafProgress * 100}%` }} />
+                  </div>
+                  <button type="button" className="btn btn-text" onClick={onCancelIAFCalibration}>
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={onStartIAFCalibration}
+                  disabled={!museConnected}
+                >
+                  {currentUser.iaf ? 'Recalibrate' : 'Calibrate'} ({IAF_CALIBRATION_MS / 1000}s, eyes closed)
+                </button>
+              )}
+              <p className={`setting-hint ${iafStatus === 'failed' ? 'iaf-failed' : ''}`}>
+                {iafStatus === 'recording'
+                  ? 'Close your eyes, relax and keep still until the recording finishes'
+                  : iafStatus === 'failed'
+                    ? 'No clear alpha peak found - check electrode contact and try again with eyes closed'
+                    : currentUser.iaf
+                      ? `Measured ${new Date(currentUser.iaf.measuredAt).toLocaleDateString()} - theta, alpha and beta edges shift ${formatShift(currentUser.iaf.frequency)} Hz from the table below`
+                      : 'Finds your alpha peak so band edges can follow it instead of the 10 Hz average'}
+              </p>
+            </div>
+
+            <BandTableEditor key={currentUser.id} table={bandTable} onSave={onBandTableChange} />
+          </section>
+        )}
+
         {/* Guidance Audio */}
         <section className="setup-section">
           <div className="section-header">
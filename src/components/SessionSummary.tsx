@@ -3,7 +3,9 @@
 import { motion } from 'framer-motion';
 import { jsPDF } from 'jspdf';
 import type { Session, SessionStats, User } from '../types';
-import { formatTime } from '../lib/storage';
+import { connectedTime, formatTime } from '../lib/storage';
+import { PROTOCOLS, DEFAULT_PROTOCOL } from '../lib/protocols';
+import { BASELINE_PHASE_LABELS } from '../lib/baseline';
 
 interface SessionSummaryProps {
   session: Session;
@@ -11,6 +13,9 @@ interface SessionSummaryProps {
   user: User;
   onNewSession: () => void;
   onExportData: () => void;
+  onExportRawData: () => void;
+  onExportEDF: () => void;
+  storageError: string | null;
 }
 
 export function SessionSummary({
@@ -19,7 +24,24 @@ export function SessionSummary({
   user,
   onNewSession,
   onExportData,
+  onExportRawData,
+  onExportEDF,
+  storageError,
 }: SessionSummaryProps) {
+  // Sessions saved before protocols existed all ran Quiet Power
+  const protocol = PROTOCOLS[session.protocol?.name ?? DEFAULT_PROTOCOL] ?? PROTOCOLS[DEFAULT_PROTOCOL];
+  const protocolLabel = session.protocol?.label ?? protocol.label;
+  const targetLabel = `Time in ${protocol.targetLabel}`;
+  const baselineLabel = session.baseline
+    ? `vs ${BASELINE_PHASE_LABELS[session.baseline.reference].toLowerCase()} baseline`
+    : null;
+
+  // Alpha/theta crossovers, as a fraction of the session for the graphs
+  // (which skip the time the signal was lost)
+  const crossovers = (session.events ?? [])
+    .filter((event) => event.type === 'crossover')
+    .map((event) => Math.min(1, connectedTime(session, event.time) / Math.max(1, stats.totalLength)));
+  const signalLostTime = session.duration - stats.totalLength;
 
   // Draw mini graph
   const drawMiniGraph = (canvas: HTMLCanvasElement, history: number[]) => {
@@ -71,6 +93,17 @@ export function SessionSummary({
     ctx.closePath();
     ctx.fillStyle = 'rgba(79, 209, 197, 0.1)';
     ctx.fill();
+
+    // Highlight crossovers
+    ctx.strokeStyle = 'rgba(251, 191, 36, 0.8)';
+    ctx.lineWidth = 1.5;
+    for (const position of crossovers) {
+      const x = position * width;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
   };
 
   // Export PDF report
@@ -99,6 +132,8 @@ export function SessionSummary({
     pdf.text(`Date: ${new Date(session.startTime).toLocaleDateString()}`, margin, y);
     y += 6;
     pdf.text(`Time: ${new Date(session.startTime).toLocaleTimeString()}`, margin, y);
+    y += 6;
+    pdf.text(`Protocol: ${protocolLabel}${baselineLabel ? ` (${baselineLabel})` : ''}`, margin, y);
     y += 15;
 
     // Main stat - Flow State percentage
@@ -109,7 +144,7 @@ export function SessionSummary({
 
     pdf.setFontSize(14);
     pdf.setTextColor(150, 150, 150);
-    pdf.text('Time in Flow State', pageWidth / 2, y, { align: 'center' });
+    pdf.text(targetLabel, pageWidth / 2, y, { align: 'center' });
     y += 20;
 
     // Stats grid
@@ -171,6 +206,21 @@ export function SessionSummary({
 
         pdf.line(x1, y1, x2, y2);
       }
+
+      // Highlight crossovers
+      pdf.setDrawColor(251, 191, 36);
+      pdf.setLineWidth(0.3);
+      for (const position of crossovers) {
+        const x = margin + position * graphWidth;
+        pdf.line(x, y, x, y + graphHeight);
+      }
+
+      if (crossovers.length > 0) {
+        y += graphHeight + 6;
+        pdf.setFontSize(10);
+        pdf.setTextColor(100, 100, 100);
+        pdf.text(`${crossovers.length} alpha/theta crossover${crossovers.length === 1 ? '' : 's'}`, margin, y);
+      }
     }
 
     // Footer
@@ -204,6 +254,10 @@ export function SessionSummary({
     >
       <header className="screen-header">
         <h1>Session Complete</h1>
+        <p className="section-subtitle">
+          {protocolLabel}
+          {baselineLabel && ` · ${baselineLabel}`}
+        </p>
       </header>
 
       <div className="summary-content">
@@ -243,7 +297,7 @@ export function SessionSummary({
             >
               {Math.round(stats.flowStatePercent)}%
             </motion.span>
-            <span className="label">Time in Flow State</span>
+            <span className="label">{targetLabel}</span>
           </div>
         </div>
 
@@ -271,8 +325,22 @@ export function SessionSummary({
         <div className="mini-graph-container">
           <canvas ref={handleGraphRef} className="mini-graph" />
         </div>
+        {crossovers.length > 0 && (
+          <p className="graph-legend">
+            <span className="legend-crossover" />
+            {crossovers.length} alpha/theta crossover{crossovers.length === 1 ? '' : 's'}
+          </p>
+        )}
+        {session.gaps && session.gaps.length > 0 && (
+          <p className="graph-legend">
+            Signal lost {session.gaps.length} time{session.gaps.length === 1 ? '' : 's'} ({formatTime(signalLostTime)}
+            {' '}min) - not counted
+          </p>
+        )}
       </div>
 
+      {storageError && <div className="error-message">{storageError}</div>}
+
       {/* Actions */}
       <footer className="screen-footer">
         <motion.button
@@ -288,6 +356,16 @@ export function SessionSummary({
           <button className="btn btn-secondary" onClick={onExportData}>
             Export Data (JSON)
           </button>
+          {session.rawRecording && (
+            <>
+              <button className="btn btn-secondary" onClick={onExportRawData}>
+                Export Raw EEG
+              </button>
+              <button className="btn btn-secondary" onClick={onExportEDF}>
+                Export EDF+
+              </button>
+            </>
+          )}
           <button className="btn btn-text" onClick={onNewSession}>
             New Session
           </button>
@@ -7,6 +7,7 @@ import type {
   BinauralPresetName,
   IsochronicPresetName,
   IsochronicTone,
+  RewardCue,
 } from '../types';
 
 export interface UseAudioReturn {
@@ -32,6 +33,7 @@ export interface UseAudioReturn {
   removeIsochronicTone: (id: string) => void;
   startReward: () => Promise<void>;
   stopReward: () => void;
+  playCue: (cue: RewardCue) => void;
   init: () => Promise<void>;
   dispose: () => void;
 }
@@ -182,6 +184,10 @@ export function useAudio(): UseAudioReturn {
     setIsRewardPlaying(false);
   }, []);
 
+  const playCue = useCallback((cue: RewardCue) => {
+    audioEngine.playCue(cue);
+  }, []);
+
   const dispose = useCallback(() => {
     audioEngine.dispose();
     setIsInitialized(false);
@@ -217,6 +223,7 @@ export function useAudio(): UseAudioReturn {
     removeIsochronicTone,
     startReward,
     stopReward,
+    playCue,
     init,
     dispose,
   };
@@ -0,0 +1,127 @@
+// React hook for the guided baseline at the start of a session
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { museHandler } from '../lib/muse-handler';
+import { BASELINE_PHASES, BandStatsRecorder } from '../lib/baseline';
+import type { BandStatsTable, BaselinePhase, SessionBaseline } from '../types';
+
+export type BaselineStatus = 'idle' | 'recording' | 'done' | 'failed';
+
+export interface UseBaselineReturn {
+  status: BaselineStatus;
+  phase: BaselinePhase | null; // Phase being recorded
+  phaseRemainingMs: number;
+  start: (reference: BaselinePhase) => void;
+  cancel: () => void;
+}
+
+export interface BaselineCallbacks {
+  onPhaseStart?: (phase: BaselinePhase) => void;
+  onComplete: (baseline: SessionBaseline | null) => void; // null if a phase had too little clean signal
+}
+
+const SAMPLE_INTERVAL_MS = 250;
+const MIN_SAMPLES = 40; // ~10 s of clean signal per phase
+const MAX_HORSESHOE = 2; // Electrode contact must be medium or better...
+const MIN_GOOD_ELECTRODES = 3; // ...on at least three electrodes
+
+/**
+ * Step through BASELINE_PHASES, sampling the configured relative band powers
+ * whenever contact is good and no artifact is being rejected
+ */
+export function useBaseline(callbacks: BaselineCallbacks): UseBaselineReturn {
+  const [status, setStatus] = useState<BaselineStatus>('idle');
+  const [phase, setPhase] = useState<BaselinePhase | null>(null);
+  const [phaseRemainingMs, setPhaseRemainingMs] = useState(0);
+
+  const recorder = useRef(new BandStatsRecorder());
+  const intervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  const callbacksRef = useRef(callbacks);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  const stop = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = undefined;
+    }
+  }, []);
+
+  const start = useCallback(
+    (reference: BaselinePhase) => {
+      stop();
+      const phases = {} as Record<BaselinePhase, BandStatsTable>;
+      let stepIndex = 0;
+      let stepStart = Date.now();
+
+      recorder.current.reset();
+      setStatus('recording');
+      setPhase(BASELINE_PHASES[0].phase);
+      setPhaseRemainingMs(BASELINE_PHASES[0].durationMs);
+      callbacksRef.current.onPhaseStart?.(BASELINE_PHASES[0].phase);
+
+      const finish = (baseline: SessionBaseline | null) => {
+        stop();
+        setPhase(null);
+        setStatus(baseline ? 'done' : 'failed');
+        callbacksRef.current.onComplete(baseline);
+      };
+
+      intervalRef.current = setInterval(() => {
+        const step = BASELINE_PHASES[stepIndex];
+        const horseshoe = museHandler.getElectrodeQuality();
+        const museState = museHandler.getState();
+        if (
+          museState.connected &&
+          !museState.artifact &&
+          horseshoe.filter((v) => v <= MAX_HORSESHOE).length >= MIN_GOOD_ELECTRODES
+        ) {
+          recorder.current.add(museState.configuredBands);
+        }
+
+        const elapsed = Date.now() - stepStart;
+        setPhaseRemainingMs(Math.max(0, step.durationMs - elapsed));
+        if (elapsed < step.durationMs) return;
+
+        if (recorder.current.count < MIN_SAMPLES) {
+          finish(null);
+          return;
+        }
+        phases[step.phase] = recorder.current.result();
+        recorder.current.reset();
+
+        stepIndex++;
+        if (stepIndex >= BASELINE_PHASES.length) {
+          finish({ reference, phases });
+          return;
+        }
+
+        const next = BASELINE_PHASES[stepIndex];
+        stepStart = Date.now();
+        setPhase(next.phase);
+        setPhaseRemainingMs(next.durationMs);
+        callbacksRef.current.onPhaseStart?.(next.phase);
+      }, SAMPLE_INTERVAL_MS);
+    },
+    [stop]
+  );
+
+  const cancel = useCallback(() => {
+    stop();
+    setStatus('idle');
+    setPhase(null);
+  }, [stop]);
+
+  // Stop recording on unmount
+  useEffect(() => stop, [stop]);
+
+  return {
+    status,
+    phase,
+    phaseRemainingMs,
+    start,
+    cancel,
+  };
+}
@@ -0,0 +1,85 @@
+// React hook for individual alpha frequency (IAF) calibration
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { museHandler } from '../lib/muse-handler';
+import { IAFCalibrator } from '../lib/iaf';
+import type { AlphaPeak } from '../lib/iaf';
+
+export type IAFCalibrationStatus = 'idle' | 'recording' | 'done' | 'failed';
+
+export interface UseIAFCalibrationReturn {
+  status: IAFCalibrationStatus;
+  progress: number; // 0-1 through the recording
+  result: AlphaPeak | null;
+  start: () => void;
+  cancel: () => void;
+}
+
+export const IAF_CALIBRATION_MS = 60000;
+const SAMPLE_INTERVAL_MS = 250; // Spectra refresh at the spectral hop (64 samples)
+const MIN_FRAMES = 40; // ~10 s of frames with usable contact
+
+/**
+ * Record eyes-closed spectra for IAF_CALIBRATION_MS and report the alpha
+ * peak through onComplete
+ */
+export function useIAFCalibration(onComplete: (frequency: number) => void): UseIAFCalibrationReturn {
+  const [status, setStatus] = useState<IAFCalibrationStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<AlphaPeak | null>(null);
+
+  const calibrator = useRef(new IAFCalibrator());
+  const intervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  const stop = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = undefined;
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    stop();
+    calibrator.current.reset();
+    setResult(null);
+    setProgress(0);
+    setStatus('recording');
+
+    const startTime = Date.now();
+    intervalRef.current = setInterval(() => {
+      calibrator.current.addSpectra(museHandler.getSpectra(), museHandler.getElectrodeQuality());
+
+      const elapsed = Date.now() - startTime;
+      setProgress(Math.min(1, elapsed / IAF_CALIBRATION_MS));
+      if (elapsed < IAF_CALIBRATION_MS) return;
+
+      stop();
+      const peak = calibrator.current.frameCount >= MIN_FRAMES ? calibrator.current.result() : null;
+      setResult(peak);
+      setStatus(peak ? 'done' : 'failed');
+      if (peak) onCompleteRef.current(peak.frequency);
+    }, SAMPLE_INTERVAL_MS);
+  }, [stop]);
+
+  const cancel = useCallback(() => {
+    stop();
+    setStatus('idle');
+    setProgress(0);
+  }, [stop]);
+
+  // Stop recording on unmount
+  useEffect(() => stop, [stop]);
+
+  return {
+    status,
+    progress,
+    result,
+    start,
+    cancel,
+  };
+}
@@ -1,22 +1,41 @@
 // React hook for Muse EEG data
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { museHandler, MuseHandler } from '../lib/muse-handler';
-import { FlowStateDetector, calculateCoherence, getCoherenceZone } from '../lib/flow-state';
-import type { MuseState, FlowState, ThresholdSettings, ElectrodeStatus, ElectrodeQuality } from '../types';
+import { museHandler, MuseHandler, SIMULATOR_SCENARIOS } from '../lib/muse-handler';
+import type { SimulatorScenarioName } from '../lib/muse-handler';
+import { ProtocolRunner, PROTOCOLS, getCoherenceZone } from '../lib/protocols';
+import { parseRecordingFile, EEG_CHANNEL_NAMES } from '../lib/eeg-recorder';
+import { zScoreBands } from '../lib/baseline';
+import type {
+  MuseState,
+  ProtocolName,
+  ProtocolSettings,
+  ProtocolState,
+  CoherenceZone,
+  FilterSettings,
+  BandDefinition,
+  BandStatsTable,
+  ElectrodeStatus,
+  ElectrodeQuality,
+} from '../types';
 
 export interface UseMuseReturn {
   state: MuseState;
-  flowState: FlowState;
+  protocolState: ProtocolState;
   coherence: number;
-  coherenceZone: 'flow' | 'stabilizing' | 'noise';
+  coherenceZone: CoherenceZone;
   coherenceHistory: number[];
   electrodeStatus: ElectrodeStatus;
   isBluetoothAvailable: boolean;
   connectBluetooth: () => Promise<void>;
   connectOSC: (url?: string) => Promise<void>;
+  connectReplay: (file: File, speed?: number) => Promise<void>;
+  connectSimulator: (scenario?: SimulatorScenarioName) => Promise<void>;
   disconnect: () => void;
-  setThresholdSettings: (settings: ThresholdSettings) => void;
+  setProtocol: (name: ProtocolName, settings?: Partial<ProtocolSettings>) => void;
+  setBaseline: (baseline: BandStatsTable | null) => void; // Reference for zBands
+  setFilterSettings: (settings: FilterSettings) => void;
+  setBandTable: (table: BandDefinition[]) => void;
   error: string | null;
 }
 
@@ -24,6 +43,7 @@ const INITIAL_STATE: MuseState = {
   connected: false,
   connectionMode: null,
   deviceName: null,
+  reconnecting: false,
   touching: false,
   connectionQuality: 0,
   batteryLevel: -1,
@@ -31,17 +51,33 @@ const INITIAL_STATE: MuseState = {
   bandsSmooth: { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 },
   bandsDb: { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 },
   bandsDbSmooth: { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 },
+  channelBands: EEG_CHANNEL_NAMES.map(() => ({ delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 })),
+  channelBandsDb: EEG_CHANNEL_NAMES.map(() => ({ delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 })),
+  configuredBands: {},
+  configuredBandsDb: {},
+  channelConfiguredBandsDb: EEG_CHANNEL_NAMES.map(() => ({})),
+  artifact: false,
+  motion: 0,
+  posture: 'unknown',
+  heart: null,
   relaxationIndex: 0,
   meditationIndex: 0,
   focusIndex: 0,
 };
 
-const INITIAL_FLOW_STATE: FlowState = {
+const INITIAL_PROTOCOL_STATE: ProtocolState = {
   isActive: false,
   sustainedMs: 0,
-  betaAlphaRatio: 1,
-  signalVariance: 0,
-  noiseLevel: 0,
+  score: 0,
+  signalValid: false,
+  rewardValid: false,
+  metrics: {},
+  inhibits: {},
+  cues: {},
+  components: {},
+  scores: {},
+  gate: null,
+  threshold: null,
 };
 
 const INITIAL_ELECTRODE_STATUS: ElectrodeStatus = {
@@ -61,20 +97,22 @@ function horseshoeToQuality(value: number): ElectrodeQuality {
 
 export function useMuse(): UseMuseReturn {
   const [state, setState] = useState<MuseState>(INITIAL_STATE);
-  const [flowState, setFlowState] = useState<FlowState>(INITIAL_FLOW_STATE);
-  const [coherence, setCoherence] = useState(0);
+  const [protocolState, setProtocolState] = useState<ProtocolState>(INITIAL_PROTOCOL_STATE);
   const [coherenceHistory, setCoherenceHistory] = useState<number[]>([]);
   const [electrodeStatus, setElectrodeStatus] = useState<ElectrodeStatus>(INITIAL_ELECTRODE_STATUS);
   const [error, setError] = useState<string | null>(null);
 
-  const flowStateDetector = useRef(new FlowStateDetector({}));
+  const protocolRunner = useRef(new ProtocolRunner());
+  const baselineRef = useRef<BandStatsTable | null>(null);
   const animationFrameRef = useRef<number | undefined>(undefined);
   const lastHistoryUpdate = useRef<number>(0);
+  const linkRef = useRef({ connected: false, reconnecting: false });
 
   // Update loop
   useEffect(() => {
     const updateLoop = () => {
-      if (museHandler.connected) {
+      const link = { connected: museHandler.connected, reconnecting: museHandler.reconnecting };
+      if (link.connected) {
         const museState = museHandler.getState();
         setState(museState);
 
@@ -87,26 +125,21 @@ export function useMuse(): UseMuseReturn {
           tp10: horseshoeToQuality(horseshoe[3]),
         });
 
-        // Calculate motion level from accelerometer
-        const motionLevel = Math.abs(museHandler.accX) + Math.abs(museHandler.accY) + Math.abs(museHandler.accZ);
-        const normalizedMotion = Math.min(1, motionLevel / 30);
-
-        // Get electrode contact quality (0-1 scale)
-        // Quality: 1=good, 2=medium, 3=poor, 4=off
-        // Convert to 0-1 where 1 is best
-        const electrodeQuality = horseshoe.reduce((sum, v) => {
-          if (v === 1) return sum + 1;      // good = 1.0
-          if (v === 2) return sum + 0.5;    // medium = 0.5
-          return sum;                        // poor/off = 0
-        }, 0) / 4;
-
-        // Update flow state detector with electrode quality
-        const fsState = flowStateDetector.current.update(museState.bandsSmooth, normalizedMotion, electrodeQuality);
-        setFlowState(fsState);
-
-        // Calculate coherence (also considering electrode quality)
-        const coh = calculateCoherence(museState.bandsSmooth, fsState.signalVariance, electrodeQuality);
-        setCoherence(coh);
+        // Run the selected protocol - its score drives the coherence graph
+        const pState = protocolRunner.current.update({
+          bands: museState.bandsSmooth,
+          bandsDb: museState.bandsDbSmooth,
+          channelBands: museState.channelBands,
+          channelBandsDb: museState.channelBandsDb,
+          spectra: museHandler.getSpectra(),
+          zBands: baselineRef.current && zScoreBands(museState.configuredBands, baselineRef.current),
+          horseshoe,
+          motion: museState.motion,
+          artifact: museState.artifact,
+          heart: museState.heart,
+        });
+        setProtocolState(pState);
+        const coh = pState.score;
 
         // Update history at ~1Hz (every 1000ms)
         const now = Date.now();
@@ -121,7 +154,19 @@ export function useMuse(): UseMuseReturn {
             return newHistory;
           });
         }
+      } else if (linkRef.current.connected || link.reconnecting !== linkRef.current.reconnecting) {
+        // Signal lost - drop the stale readings so nothing keeps scoring them
+        setState({
+          ...INITIAL_STATE,
+          connectionMode: museHandler.connectionMode,
+          deviceName: museHandler.deviceName,
+          reconnecting: link.reconnecting,
+        });
+        protocolRunner.current.interrupt();
+        setProtocolState({ ...INITIAL_PROTOCOL_STATE, threshold: protocolRunner.current.threshold });
+        setElectrodeStatus(INITIAL_ELECTRODE_STATUS);
       }
+      linkRef.current = link;
 
       animationFrameRef.current = requestAnimationFrame(updateLoop);
     };
@@ -155,36 +200,71 @@ export function useMuse(): UseMuseReturn {
     }
   }, []);
 
+  const connectReplay = useCallback(async (file: File, speed: number = 1) => {
+    try {
+      setError(null);
+      const recording = parseRecordingFile(await file.text());
+      await museHandler.connectReplay(recording, { speed, name: `Replay: ${file.name}` });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay failed');
+      throw err;
+    }
+  }, []);
+
+  const connectSimulator = useCallback(async (scenario: SimulatorScenarioName = 'calm') => {
+    try {
+      setError(null);
+      await museHandler.connectSimulator(SIMULATOR_SCENARIOS[scenario]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulator failed');
+      throw err;
+    }
+  }, []);
+
   const disconnect = useCallback(() => {
     museHandler.disconnect();
     setState(INITIAL_STATE);
-    setFlowState(INITIAL_FLOW_STATE);
+    setProtocolState(INITIAL_PROTOCOL_STATE);
     setElectrodeStatus(INITIAL_ELECTRODE_STATUS);
-    setCoherence(0);
-    flowStateDetector.current.reset();
+    protocolRunner.current.reset();
+  }, []);
+
+  const setProtocol = useCallback((name: ProtocolName, settings: Partial<ProtocolSettings> = {}) => {
+    protocolRunner.current.setProtocol(PROTOCOLS[name], settings);
+    setProtocolState(INITIAL_PROTOCOL_STATE);
+  }, []);
+
+  const setBaseline = useCallback((baseline: BandStatsTable | null) => {
+    baselineRef.current = baseline;
+    // Scores switch scale, so restart the sustain timer
+    protocolRunner.current.reset();
+  }, []);
+
+  const setFilterSettings = useCallback((settings: FilterSettings) => {
+    museHandler.setFilterSettings(settings);
   }, []);
 
-  const setThresholdSettings = useCallback((settings: ThresholdSettings) => {
-    flowStateDetector.current.setConfig({
-      sustainedMs: settings.timeThreshold,
-      // Convert coherence threshold to beta/alpha ratio threshold
-      // Higher coherence threshold = stricter condition = lower ratio threshold
-      betaAlphaRatioThreshold: 1.0 - (settings.coherenceThreshold - 0.7) * 2,
-    });
+  const setBandTable = useCallback((table: BandDefinition[]) => {
+    museHandler.setBandTable(table);
   }, []);
 
   return {
     state,
-    flowState,
-    coherence,
-    coherenceZone: getCoherenceZone(coherence),
+    protocolState,
+    coherence: protocolState.score,
+    coherenceZone: getCoherenceZone(protocolState.score),
     coherenceHistory,
     electrodeStatus,
     isBluetoothAvailable: MuseHandler.isBluetoothAvailable(),
     connectBluetooth,
     connectOSC,
+    connectReplay,
+    connectSimulator,
     disconnect,
-    setThresholdSettings,
+    setProtocol,
+    setBaseline,
+    setFilterSettings,
+    setBandTable,
     error,
   };
 }
@@ -1,16 +1,33 @@
 // React hook for session management
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { storage, calculateSessionStats } from '../lib/storage';
-import type { User, Session, SessionStats, AppScreen } from '../types';
+import { storage, calculateSessionStats, StorageError } from '../lib/storage';
+import { museHandler } from '../lib/muse-handler';
+import { normalizeBandTable } from '../lib/band-table';
+import type {
+  BandDefinition,
+  User,
+  Session,
+  SessionStats,
+  SessionEvent,
+  SessionEventType,
+  SessionProtocol,
+  SessionBaseline,
+  SessionGap,
+  ScoreComponent,
+  ThresholdChange,
+  AppScreen,
+} from '../types';
 
 export interface UseSessionReturn {
   // User management
   currentUser: User | null;
   users: User[];
-  createUser: (name: string) => User;
-  selectUser: (userId: string) => void;
-  deleteUser: (userId: string) => void;
+  createUser: (name: string) => Promise<User | null>;
+  selectUser: (userId: string) => Promise<void>;
+  deleteUser: (userId: string) => Promise<void>;
+  updateBandTable: (table: BandDefinition[]) => Promise<void>;
+  saveIAF: (frequency: number) => Promise<void>;
 
   // Session state
   isSessionActive: boolean;
@@ -20,30 +37,46 @@ export interface UseSessionReturn {
   longestStreak: number;
   currentStreak: number;
   coherenceHistory: number[];
+  heartRateHistory: (number | null)[];
+  signalLost: boolean; // Headband disconnected - scoring and flow timing paused
 
   // Session controls
-  startSession: () => void;
-  endSession: () => Session | null;
+  startSession: (protocol?: SessionProtocol) => void;
+  endSession: () => Promise<Session | null>;
   updateFlowState: (isActive: boolean, coherence: number) => void;
+  setSignalLost: (lost: boolean) => void; // Opens or closes a gap in the session
+  setBaseline: (baseline: SessionBaseline) => void; // Saved with the session
+  logThreshold: (value: number) => void; // Records the adaptive threshold when it changes
+  logHeartRate: (heartRate: number | null) => void; // Sampled about once a second
+  logComponents: (components: Record<string, ScoreComponent>) => void; // Sampled about once a second
+  logEvent: (type: SessionEventType, label?: string) => void;
+  addMarker: (label?: string) => void;
+  markerCount: number;
 
   // Completed session
   lastSession: Session | null;
   lastSessionStats: SessionStats | null;
 
+  // Storage failures (e.g. browser storage full)
+  storageError: string | null;
+  clearStorageError: () => void;
+
   // Navigation
   screen: AppScreen;
   setScreen: (screen: AppScreen) => void;
 
   // Data management
-  exportData: () => void;
+  exportData: () => Promise<void>;
+  exportSession: (session: Session) => void;
+  exportEDF: (session: Session) => Promise<void>;
   importData: (file: File) => Promise<{ users: number; sessions: number }>;
-  getUserSessions: (userId: string) => Session[];
+  getUserSessions: (userId: string) => Promise<Session[]>;
 }
 
 export function useSession(): UseSessionReturn {
   // User state
-  const [currentUser, setCurrentUser] = useState<User | null>(storage.getCurrentUser());
-  const [users, setUsers] = useState<User[]>(storage.getUsers());
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [users, setUsers] = useState<User[]>([]);
 
   // Session state
   const [isSessionActive, setIsSessionActive] = useState(false);
@@ -53,10 +86,14 @@ export function useSession(): UseSessionReturn {
   const [longestStreak, setLongestStreak] = useState(0);
   const [currentStreak, setCurrentStreak] = useState(0);
   const [coherenceHistory, setCoherenceHistory] = useState<number[]>([]);
+  const [heartRateHistory, setHeartRateHistory] = useState<(number | null)[]>([]);
+  const [markerCount, setMarkerCount] = useState(0);
+  const [signalLost, setSignalLostState] = useState(false);
 
   // Session result
   const [lastSession, setLastSession] = useState<Session | null>(null);
   const [lastSessionStats, setLastSessionStats] = useState<SessionStats | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   // Navigation
   const [screen, setScreen] = useState<AppScreen>('setup');
@@ -64,8 +101,35 @@ export function useSession(): UseSessionReturn {
   // Refs for tracking
   const flowStateStartRef = useRef<number | null>(null);
   const lastCoherenceTimeRef = useRef<number>(0);
+  const lastHeartRateTimeRef = useRef<number>(0);
+  const lastComponentsTimeRef = useRef<number>(0);
+  const eventsRef = useRef<SessionEvent[]>([]);
+  const protocolRef = useRef<SessionProtocol | undefined>(undefined);
+  const baselineRef = useRef<SessionBaseline | undefined>(undefined);
+  const thresholdsRef = useRef<ThresholdChange[]>([]);
+  const componentHistoryRef = useRef<Record<string, (number | null)[]>>({});
+  const gapsRef = useRef<SessionGap[]>([]);
+  const gapStartRef = useRef<number | null>(null); // ms since session start, while the signal is lost
   const durationIntervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
 
+  // Load users from storage
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([storage.getUsers(), storage.getCurrentUser()])
+      .then(([storedUsers, storedCurrentUser]) => {
+        if (cancelled) return;
+        setUsers(storedUsers);
+        setCurrentUser(storedCurrentUser);
+      })
+      .catch((err) => {
+        console.error('[Storage] Failed to load users:', err);
+        if (!cancelled) setStorageError('Could not open browser storage - saved profiles are unavailable.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // Update duration every second
   useEffect(() => {
     if (isSessionActive && sessionStartTime) {
@@ -82,29 +146,66 @@ export function useSession(): UseSessionReturn {
   }, [isSessionActive, sessionStartTime]);
 
   // User management
-  const createUser = useCallback((name: string) => {
-    const user = storage.createUser(name);
-    setUsers(storage.getUsers());
-    storage.setCurrentUser(user.id);
-    setCurrentUser(user);
-    return user;
+  const createUser = useCallback(async (name: string) => {
+    try {
+      const user = await storage.createUser(name);
+      setUsers(await storage.getUsers());
+      await storage.setCurrentUser(user.id);
+      setCurrentUser(user);
+      return user;
+    } catch (err) {
+      setStorageError((err as Error).message);
+      return null;
+    }
   }, []);
 
-  const selectUser = useCallback((userId: string) => {
-    storage.setCurrentUser(userId);
-    setCurrentUser(storage.getUser(userId));
+  const selectUser = useCallback(async (userId: string) => {
+    try {
+      await storage.setCurrentUser(userId);
+      setCurrentUser(await storage.getUser(userId));
+    } catch (err) {
+      setStorageError((err as Error).message);
+    }
   }, []);
 
-  const deleteUser = useCallback((userId: string) => {
-    storage.deleteUser(userId);
-    setUsers(storage.getUsers());
-    if (currentUser?.id === userId) {
-      setCurrentUser(null);
+  const deleteUser = useCallback(async (userId: string) => {
+    try {
+      await storage.deleteUser(userId);
+      setUsers(await storage.getUsers());
+      if (currentUser?.id === userId) {
+        setCurrentUser(null);
+      }
+    } catch (err) {
+      setStorageError((err as Error).message);
+    }
+  }, [currentUser]);
+
+  // Save profile settings on the current user
+  const updateCurrentUser = useCallback(async (updates: Partial<User>) => {
+    if (!currentUser) return;
+    try {
+      const updated = await storage.updateUser(currentUser.id, updates);
+      if (updated) {
+        setCurrentUser(updated);
+        setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      }
+    } catch (err) {
+      setStorageError((err as Error).message);
     }
   }, [currentUser]);
 
+  const updateBandTable = useCallback(
+    (table: BandDefinition[]) => updateCurrentUser({ bandTable: normalizeBandTable(table) }),
+    [updateCurrentUser]
+  );
+
+  const saveIAF = useCallback(
+    (frequency: number) => updateCurrentUser({ iaf: { frequency, measuredAt: new Date().toISOString() } }),
+    [updateCurrentUser]
+  );
+
   // Session controls
-  const startSession = useCallback(() => {
+  const startSession = useCallback((protocol?: SessionProtocol) => {
     const now = Date.now();
     setSessionStartTime(now);
     setSessionDuration(0);
@@ -112,13 +213,28 @@ export function useSession(): UseSessionReturn {
     setLongestStreak(0);
     setCurrentStreak(0);
     setCoherenceHistory([]);
+    setHeartRateHistory([]);
+    setMarkerCount(0);
+    setSignalLostState(false);
     setIsSessionActive(true);
     flowStateStartRef.current = null;
+    eventsRef.current = [];
+    protocolRef.current = protocol;
+    baselineRef.current = undefined;
+    thresholdsRef.current = [];
+    componentHistoryRef.current = {};
+    gapsRef.current = [];
+    gapStartRef.current = null;
     lastCoherenceTimeRef.current = now;
+    lastHeartRateTimeRef.current = now;
+    lastComponentsTimeRef.current = now;
+    museHandler.startRecording();
     setScreen('session');
   }, []);
 
-  const endSession = useCallback(() => {
+  const endSession = useCallback(async () => {
+    const rawRecording = museHandler.stopRecording();
+
     if (!isSessionActive || !sessionStartTime || !currentUser) {
       setIsSessionActive(false);
       return null;
@@ -127,13 +243,20 @@ export function useSession(): UseSessionReturn {
     const endTime = Date.now();
     const duration = endTime - sessionStartTime;
 
+    // Close a gap still open when the session ends
+    if (gapStartRef.current !== null) {
+      gapsRef.current.push({ start: gapStartRef.current, end: duration });
+      gapStartRef.current = null;
+      setSignalLostState(false);
+    }
+
     // Calculate average coherence
     const avgCoherence =
       coherenceHistory.length > 0
         ? coherenceHistory.reduce((a, b) => a + b, 0) / coherenceHistory.length
         : 0;
 
-    const session = storage.saveSession({
+    const newSession: Omit<Session, 'id'> = {
       userId: currentUser.id,
       startTime: new Date(sessionStartTime).toISOString(),
       endTime: new Date(endTime).toISOString(),
@@ -142,7 +265,25 @@ export function useSession(): UseSessionReturn {
       longestStreak,
       avgCoherence,
       coherenceHistory,
-    });
+      ...(protocolRef.current && { protocol: protocolRef.current }),
+      ...(baselineRef.current && { baseline: baselineRef.current }),
+      ...(thresholdsRef.current.length > 0 && { thresholds: thresholdsRef.current }),
+      ...(heartRateHistory.some((bpm) => bpm !== null) && { heartRateHistory }),
+      ...(Object.keys(componentHistoryRef.current).length > 0 && { componentHistory: componentHistoryRef.current }),
+      ...(gapsRef.current.length > 0 && { gaps: gapsRef.current }),
+      ...(rawRecording && { rawRecording }),
+      events: eventsRef.current,
+    };
+
+    let session: Session;
+    try {
+      session = await storage.saveSession(newSession);
+    } catch (err) {
+      if (!(err instanceof StorageError) || !err.session) throw err;
+      // Keep the session in memory so it can still be exported
+      setStorageError(err.message);
+      session = err.session;
+    }
 
     setLastSession(session);
     setLastSessionStats(calculateSessionStats(session));
@@ -157,11 +298,69 @@ export function useSession(): UseSessionReturn {
     flowStateTime,
     longestStreak,
     coherenceHistory,
+    heartRateHistory,
   ]);
 
+  const logEvent = useCallback(
+    (type: SessionEventType, label?: string) => {
+      if (!isSessionActive || !sessionStartTime) return;
+      eventsRef.current.push({
+        time: Date.now() - sessionStartTime,
+        type,
+        ...(label && { label }),
+      });
+    },
+    [isSessionActive, sessionStartTime]
+  );
+
+  const logThreshold = useCallback(
+    (value: number) => {
+      if (!isSessionActive || !sessionStartTime) return;
+      const thresholds = thresholdsRef.current;
+      if (thresholds.length > 0 && thresholds[thresholds.length - 1].value === value) return;
+      thresholds.push({ time: Date.now() - sessionStartTime, value });
+    },
+    [isSessionActive, sessionStartTime]
+  );
+
+  const logHeartRate = useCallback(
+    (heartRate: number | null) => {
+      if (!isSessionActive || gapStartRef.current !== null) return;
+      const now = Date.now();
+      if (now - lastHeartRateTimeRef.current < 1000) return;
+      lastHeartRateTimeRef.current = now;
+      setHeartRateHistory((prev) => [...prev, heartRate === null ? null : Math.round(heartRate * 10) / 10]);
+    },
+    [isSessionActive]
+  );
+
+  const logComponents = useCallback(
+    (components: Record<string, ScoreComponent>) => {
+      if (!isSessionActive || gapStartRef.current !== null) return;
+      const now = Date.now();
+      if (now - lastComponentsTimeRef.current < 1000) return;
+      lastComponentsTimeRef.current = now;
+      for (const [key, { score }] of Object.entries(components)) {
+        (componentHistoryRef.current[key] ??= []).push(score === null ? null : Math.round(score * 1000) / 1000);
+      }
+    },
+    [isSessionActive]
+  );
+
+  const addMarker = useCallback(
+    (label?: string) => {
+      if (!isSessionActive) return;
+      const count = eventsRef.current.filter((e) => e.type === 'marker').length + 1;
+      logEvent('marker', label ?? `Marker ${count}`);
+      setMarkerCount(count);
+    },
+    [isSessionActive, logEvent]
+  );
+
   const updateFlowState = useCallback(
     (isActive: boolean, coherence: number) => {
-      if (!isSessionActive) return;
+      // Nothing is scored while the signal is lost
+      if (!isSessionActive || gapStartRef.current !== null) return;
 
       const now = Date.now();
 
@@ -175,6 +374,7 @@ export function useSession(): UseSessionReturn {
         // In flow state
         if (flowStateStartRef.current === null) {
           flowStateStartRef.current = now;
+          logEvent('flow_enter');
         }
 
         const streak = now - flowStateStartRef.current;
@@ -190,24 +390,72 @@ export function useSession(): UseSessionReturn {
           const timeSpent = now - flowStateStartRef.current;
           setFlowStateTime((prev) => prev + timeSpent);
           flowStateStartRef.current = null;
+          logEvent('flow_exit');
+        }
+        setCurrentStreak(0);
+      }
+    },
+    [isSessionActive, longestStreak, logEvent]
+  );
+
+  const setSignalLost = useCallback(
+    (lost: boolean) => {
+      if (!isSessionActive || !sessionStartTime) return;
+      const now = Date.now();
+
+      if (lost) {
+        if (gapStartRef.current !== null) return;
+        // End any flow streak at the drop - the disconnected time isn't flow
+        if (flowStateStartRef.current !== null) {
+          const timeSpent = now - flowStateStartRef.current;
+          setFlowStateTime((prev) => prev + timeSpent);
+          flowStateStartRef.current = null;
+          logEvent('flow_exit');
         }
         setCurrentStreak(0);
+        logEvent('signal_lost');
+        gapStartRef.current = now - sessionStartTime;
+      } else {
+        if (gapStartRef.current === null) return;
+        gapsRef.current.push({ start: gapStartRef.current, end: now - sessionStartTime });
+        gapStartRef.current = null;
+        logEvent('signal_restored');
+        // Skip the sample that would span the gap
+        lastCoherenceTimeRef.current = now;
+        lastHeartRateTimeRef.current = now;
+        lastComponentsTimeRef.current = now;
       }
+      setSignalLostState(lost);
     },
-    [isSessionActive, longestStreak]
+    [isSessionActive, sessionStartTime, logEvent]
   );
 
+  const setBaseline = useCallback((baseline: SessionBaseline) => {
+    baselineRef.current = baseline;
+  }, []);
+
+  const clearStorageError = useCallback(() => setStorageError(null), []);
+
   // Data management
-  const exportData = useCallback(() => {
-    storage.downloadExport(currentUser?.id);
+  const exportData = useCallback(async () => {
+    await storage.downloadExport(currentUser?.id);
   }, [currentUser]);
 
+  const exportSession = useCallback((session: Session) => {
+    storage.downloadSession(session);
+  }, []);
+
+  const exportEDF = useCallback(async (session: Session) => {
+    const user = await storage.getUser(session.userId);
+    storage.downloadEDF(session, user?.name);
+  }, []);
+
   const importData = useCallback(async (file: File) => {
     const text = await file.text();
-    const result = storage.importData(text);
-    setUsers(storage.getUsers());
+    const result = await storage.importData(text, currentUser?.id);
+    setUsers(await storage.getUsers());
     return result;
-  }, []);
+  }, [currentUser]);
 
   const getUserSessions = useCallback((userId: string) => {
     return storage.getUserSessions(userId);
@@ -220,6 +468,8 @@ export function useSession(): UseSessionReturn {
     createUser,
     selectUser,
     deleteUser,
+    updateBandTable,
+    saveIAF,
 
     // Session state
     isSessionActive,
@@ -229,22 +479,38 @@ export function useSession(): UseSessionReturn {
     longestStreak,
     currentStreak,
     coherenceHistory,
+    heartRateHistory,
+    signalLost,
 
     // Session controls
     startSession,
     endSession,
     updateFlowState,
+    setSignalLost,
+    setBaseline,
+    logThreshold,
+    logHeartRate,
+    logComponents,
+    logEvent,
+    addMarker,
+    markerCount,
 
     // Completed session
     lastSession,
     lastSessionStats,
 
+    // Storage failures
+    storageError,
+    clearStorageError,
+
     // Navigation
     screen,
     setScreen,
 
     // Data management
     exportData,
+    exportSession,
+    exportEDF,
     importData,
     getUserSessions,
   };
@@ -0,0 +1,161 @@
+// Artifact Detector
+// Flags non-brain transients in filtered EEG packets - large or steep
+// deflections, muscle (EMG) bursts, blinks (both forehead channels) and jaw
+// clenches (EMG over both ears) - so contaminated samples can be kept out
+// of band power estimates
+
+export type ArtifactEvent = 'blink' | 'jawClench';
+
+export interface ArtifactThresholds {
+  amplitude: number; // µV peak - larger deflections are not EEG
+  gradient: number; // µV between consecutive samples (electrode pops, cable motion)
+  emg: number; // µV RMS of the sample-to-sample difference (muscle activity)
+}
+
+export const DEFAULT_ARTIFACT_THRESHOLDS: ArtifactThresholds = {
+  amplitude: 75,
+  gradient: 50,
+  emg: 10,
+};
+
+export interface ArtifactResult {
+  mask: boolean[]; // Per sample of the packet - true if contaminated
+  lookback: number; // Samples before the packet to mark as well (artifact onset)
+  events: ArtifactEvent[]; // Blinks / jaw clenches that started with this packet
+}
+
+// Electrode indices in [TP9, AF7, AF8, TP10]
+const TP9 = 0;
+const AF7 = 1;
+const AF8 = 2;
+const TP10 = 3;
+
+const PAD_SAMPLES = 64; // Marked after an artifact packet (250 ms) while the signal settles
+const LOOKBACK_SAMPLES = 32; // Marked before it, where the artifact was still ramping up
+const COINCIDENCE_SAMPLES = 26; // Channels' packets count as simultaneous within ~100 ms
+const BLINK_FRONTAL_RATIO = 2; // Forehead peaks must be this much larger than the ear peaks
+const EVENT_REFRACTORY_SAMPLES: Record<ArtifactEvent, number> = {
+  blink: 100, // ~400 ms
+  jawClench: 256, // 1 s
+};
+
+interface PacketStats {
+  end: number; // Sample count on this channel after the packet
+  peak: number; // µV, largest magnitude
+  positivePeak: number; // µV, largest positive excursion
+  emg: number; // µV
+}
+
+export class ArtifactDetector {
+  private thresholds: ArtifactThresholds;
+  private stats: (PacketStats | null)[] = [null, null, null, null];
+  private previousSample: (number | null)[] = [null, null, null, null];
+  private samplesSeen = [0, 0, 0, 0];
+  private padRemaining = [0, 0, 0, 0];
+  private lastEvent: Record<ArtifactEvent, number> = { blink: -Infinity, jawClench: -Infinity };
+  private eventActive: Record<ArtifactEvent, boolean> = { blink: false, jawClench: false };
+
+  constructor(thresholds: ArtifactThresholds = DEFAULT_ARTIFACT_THRESHOLDS) {
+    this.thresholds = { ...thresholds };
+  }
+
+  /**
+   * Check one channel's packet of filtered samples (µV)
+   */
+  process(channel: number, samples: number[]): ArtifactResult {
+    let peak = 0;
+    let positivePeak = 0;
+    let step = 0;
+    let diffSquares = 0;
+    let previous = this.previousSample[channel];
+    for (const sample of samples) {
+      peak = Math.max(peak, Math.abs(sample));
+      positivePeak = Math.max(positivePeak, sample);
+      if (previous !== null) {
+        const diff = sample - previous;
+        step = Math.max(step, Math.abs(diff));
+        diffSquares += diff * diff;
+      }
+      previous = sample;
+    }
+    this.previousSample[channel] = previous;
+    this.samplesSeen[channel] += samples.length;
+
+    const emg = samples.length > 1 ? Math.sqrt(diffSquares / (samples.length - 1)) : 0;
+    this.stats[channel] = { end: this.samplesSeen[channel], peak, positivePeak, emg };
+
+    const { amplitude, gradient, emg: emgThreshold } = this.thresholds;
+    const dirty = peak > amplitude || step > gradient || emg > emgThreshold;
+
+    const mask = samples.map(() => dirty);
+    if (dirty) {
+      this.padRemaining[channel] = PAD_SAMPLES;
+    } else {
+      for (let i = 0; i < mask.length && this.padRemaining[channel] > 0; i++) {
+        mask[i] = true;
+        this.padRemaining[channel]--;
+      }
+    }
+
+    return {
+      mask,
+      lookback: dirty ? LOOKBACK_SAMPLES : 0,
+      events: this.detectEvents(channel),
+    };
+  }
+
+  /**
+   * True while any channel is within an artifact or its settling pad
+   */
+  get active(): boolean {
+    return this.padRemaining.some((n) => n > 0);
+  }
+
+  reset(): void {
+    this.stats = [null, null, null, null];
+    this.previousSample = [null, null, null, null];
+    this.samplesSeen = [0, 0, 0, 0];
+    this.padRemaining = [0, 0, 0, 0];
+    this.lastEvent = { blink: -Infinity, jawClench: -Infinity };
+    this.eventActive = { blink: false, jawClench: false };
+  }
+
+  /**
+   * Blinks: a positive swing over the amplitude limit on both forehead
+   * channels, well above the ear channels (motion moves all four). Jaw
+   * clenches: EMG over both ear channels
+   */
+  private detectEvents(channel: number): ArtifactEvent[] {
+    const now = this.samplesSeen[channel];
+    const recent = (ch: number) => {
+      const stats = this.stats[ch];
+      return stats && Math.abs(stats.end - now) <= COINCIDENCE_SAMPLES ? stats : null;
+    };
+    const { amplitude, emg } = this.thresholds;
+
+    const af7 = recent(AF7);
+    const af8 = recent(AF8);
+    const tp9 = recent(TP9);
+    const tp10 = recent(TP10);
+
+    const conditions: Record<ArtifactEvent, boolean> = {
+      blink:
+        !!af7 &&
+        !!af8 &&
+        Math.min(af7.positivePeak, af8.positivePeak) > amplitude &&
+        Math.min(af7.positivePeak, af8.positivePeak) > BLINK_FRONTAL_RATIO * Math.max(tp9?.peak ?? 0, tp10?.peak ?? 0),
+      jawClench: !!tp9 && !!tp10 && tp9.emg > emg && tp10.emg > emg,
+    };
+
+    const events: ArtifactEvent[] = [];
+    for (const event of Object.keys(conditions) as ArtifactEvent[]) {
+      // Fire on the rising edge, at most once per refractory period
+      if (conditions[event] && !this.eventActive[event] && now - this.lastEvent[event] >= EVENT_REFRACTORY_SAMPLES[event]) {
+        this.lastEvent[event] = now;
+        events.push(event);
+      }
+      this.eventActive[event] = conditions[event];
+    }
+    return events;
+  }
+}
@@ -1,5 +1,5 @@
 // Audio Engine for Entrainment and Rewards
-// Handles binaural beats, isochronic tones, and vibroacoustic rewards
+// Handles binaural beats, isochronic tones, vibroacoustic rewards and reward cues
 
 import type {
   EntrainmentType,
@@ -8,6 +8,7 @@ import type {
   IsochronicTone,
   IsochronicPreset,
   IsochronicPresetName,
+  RewardCue,
 } from '../types';
 
 // Binaural beat presets for different brain states
@@ -70,6 +71,25 @@ export const ISOCHRONIC_PRESETS: Record<IsochronicPresetName, IsochronicPreset>
   },
 };
 
+// Reward cue tones - bell-like notes, each offset in seconds from the cue start
+const REWARD_CUES: Record<RewardCue, { freq: number; delay: number }[]> = {
+  alpha: [{ freq: 784, delay: 0 }], // Bright G5
+  theta: [{ freq: 294, delay: 0 }], // Warm D4
+  crossover: [
+    // Rising arpeggio, D4 - A4 - D5
+    { freq: 294, delay: 0 },
+    { freq: 440, delay: 0.2 },
+    { freq: 587, delay: 0.4 },
+  ],
+  chime: [
+    // Falling pair, E5 - C5 - marks a guided step
+    { freq: 659, delay: 0 },
+    { freq: 523, delay: 0.25 },
+  ],
+};
+
+const CUE_DECAY_S = 1.5;
+
 export interface AudioEngineConfig {
   entrainmentType: EntrainmentType;
   entrainmentVolume: number;
@@ -432,6 +452,33 @@ export class AudioEngine {
     console.log('[AudioEngine] Stopped reward signal');
   }
 
+  /**
+   * Play a short reward cue on top of any entrainment or reward audio
+   */
+  playCue(cue: RewardCue): void {
+    if (!this.ctx || !this.masterGain) return;
+
+    const now = this.ctx.currentTime;
+    for (const { freq, delay } of REWARD_CUES[cue]) {
+      const osc = this.ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.value = freq;
+
+      // Quick attack, exponential bell decay
+      const gain = this.ctx.createGain();
+      const start = now + delay;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(this.config.rewardVolume * 0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + CUE_DECAY_S);
+
+      osc.connect(gain);
+      gain.connect(this.masterGain);
+      osc.start(start);
+      osc.stop(start + CUE_DECAY_S + 0.05);
+      osc.onended = () => gain.disconnect();
+    }
+  }
+
   /**
    * Set entrainment volume (0-1)
    */
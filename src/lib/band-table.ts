@@ -0,0 +1,123 @@
+// Frequency Band Tables
+// Per-user band definitions: the five core bands (adjustable edges) plus
+// optional extras such as low/high alpha, SMR or high beta
+
+import type { BandDefinition, BandValues, BrainwaveBands } from '../types';
+
+export const CORE_BAND_KEYS = ['delta', 'theta', 'alpha', 'beta', 'gamma'] as const;
+
+export const DEFAULT_BAND_TABLE: BandDefinition[] = [
+  { key: 'delta', name: 'Delta', symbol: 'δ', low: 1, high: 4 },
+  { key: 'theta', name: 'Theta', symbol: 'θ', low: 4, high: 8 },
+  { key: 'alpha', name: 'Alpha', symbol: 'α', low: 8, high: 13 },
+  { key: 'beta', name: 'Beta', symbol: 'β', low: 13, high: 30 },
+  { key: 'gamma', name: 'Gamma', symbol: 'γ', low: 30, high: 44 },
+];
+
+// Common extra bands offered in the band editor
+export const BAND_PRESETS: BandDefinition[] = [
+  { key: 'lowAlpha', name: 'Low Alpha', symbol: 'α₁', low: 8, high: 10 },
+  { key: 'highAlpha', name: 'High Alpha', symbol: 'α₂', low: 10, high: 13 },
+  { key: 'smr', name: 'SMR', symbol: 'SMR', low: 12, high: 15 },
+  { key: 'lowBeta', name: 'Low Beta', symbol: 'β₁', low: 15, high: 20 },
+  { key: 'highBeta', name: 'High Beta', symbol: 'β₂', low: 20, high: 30 },
+];
+
+export const MIN_BAND_FREQ = 0.5;
+export const MAX_BAND_FREQ = 100;
+export const MAX_BANDS = 12;
+
+// 1/f correction applied before computing relative power, anchored at
+// the center of each default core band and interpolated in between
+const WEIGHT_ANCHORS: [number, number][] = [
+  [2.5, 1.0],
+  [6, 1.5],
+  [10.5, 2.0],
+  [21.5, 3.0],
+  [37, 4.0],
+];
+
+export function isCoreBand(key: string): key is keyof BrainwaveBands {
+  return (CORE_BAND_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * 1/f weight for a band from its center frequency
+ */
+export function bandWeight(band: BandDefinition): number {
+  const center = (band.low + band.high) / 2;
+  const first = WEIGHT_ANCHORS[0];
+  const last = WEIGHT_ANCHORS[WEIGHT_ANCHORS.length - 1];
+  if (center <= first[0]) return first[1];
+  if (center >= last[0]) return last[1];
+
+  for (let i = 1; i < WEIGHT_ANCHORS.length; i++) {
+    const [f1, w1] = WEIGHT_ANCHORS[i];
+    if (center <= f1) {
+      const [f0, w0] = WEIGHT_ANCHORS[i - 1];
+      return w0 + ((w1 - w0) * (center - f0)) / (f1 - f0);
+    }
+  }
+  return last[1];
+}
+
+/**
+ * Relative (0-1) band powers from average band power, with 1/f correction.
+ * Normalized by the core bands' total so extras share their per-Hz scale -
+ * a narrow extra around a peak can read above its parent band (capped at 1)
+ */
+export function toRelativePower(power: BandValues, table: BandDefinition[]): BandValues | null {
+  const weighted: BandValues = {};
+  let total = 0;
+  for (const band of table) {
+    weighted[band.key] = power[band.key] * bandWeight(band);
+    if (isCoreBand(band.key)) total += weighted[band.key];
+  }
+  if (!(total > 0)) return null;
+  for (const band of table) {
+    weighted[band.key] = Math.min(1, weighted[band.key] / total);
+  }
+  return weighted;
+}
+
+/**
+ * Core band whose range contains a band's center - used to color extras
+ */
+export function parentCoreBand(band: BandDefinition, table: BandDefinition[]): keyof BrainwaveBands {
+  const center = (band.low + band.high) / 2;
+  const core = table.filter((b) => isCoreBand(b.key));
+  const parent = core.find((b) => center >= b.low && center < b.high) ?? (center < 4 ? core[0] : core[core.length - 1]);
+  return (parent?.key ?? 'alpha') as keyof BrainwaveBands;
+}
+
+/**
+ * Make a band table safe to run: clamp edges, keep keys unique, restore any
+ * missing core band and sort by frequency
+ */
+export function normalizeBandTable(table: BandDefinition[] | undefined): BandDefinition[] {
+  const seen = new Set<string>();
+  const bands: BandDefinition[] = [];
+  let extras = 0; // Room is kept for every core band, so extras stop short of MAX_BANDS
+
+  for (const band of table ?? []) {
+    if (!band.key || seen.has(band.key)) continue;
+    if (!isCoreBand(band.key)) {
+      if (extras >= MAX_BANDS - CORE_BAND_KEYS.length) continue;
+      extras++;
+    }
+    const low = clamp(band.low, MIN_BAND_FREQ, MAX_BAND_FREQ - 1);
+    const high = clamp(band.high, low + 1, MAX_BAND_FREQ);
+    seen.add(band.key);
+    bands.push({ ...band, low, high });
+  }
+
+  for (const core of DEFAULT_BAND_TABLE) {
+    if (!seen.has(core.key)) bands.push({ ...core });
+  }
+
+  return bands.sort((a, b) => a.low - b.low || a.high - b.high);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return isFinite(value) ? Math.max(min, Math.min(max, value)) : min;
+}
@@ -0,0 +1,89 @@
+// Session Baseline
+// Guided eyes-open and eyes-closed rest at the start of a session, recording
+// each band's mean and spread so protocols can score z-scores against it
+
+import type { BandStatsTable, BandValues, BaselinePhase } from '../types';
+
+export interface BaselinePhaseStep {
+  phase: BaselinePhase;
+  label: string;
+  instruction: string;
+  durationMs: number;
+}
+
+export const BASELINE_PHASES: BaselinePhaseStep[] = [
+  {
+    phase: 'eyes_open',
+    label: 'Eyes Open',
+    instruction: 'Rest your gaze softly on the screen and relax',
+    durationMs: 60000,
+  },
+  {
+    phase: 'eyes_closed',
+    label: 'Eyes Closed',
+    instruction: 'Close your eyes and relax - a chime marks the end',
+    durationMs: 60000,
+  },
+];
+
+export const BASELINE_DURATION_MS = BASELINE_PHASES.reduce((sum, step) => sum + step.durationMs, 0);
+
+export const BASELINE_PHASE_LABELS: Record<BaselinePhase, string> = {
+  eyes_open: 'Eyes open',
+  eyes_closed: 'Eyes closed',
+};
+
+const MIN_SD = 0.005; // Floor on band SD so a near-constant band can't blow up its z-score
+const MAX_Z = 5; // Clamp so a single artifact can't dominate a score
+
+/**
+ * Running mean and standard deviation of each band (Welford's algorithm)
+ * Each band keeps its own count, as frames can be missing some bands
+ */
+export class BandStatsRecorder {
+  private stats: Record<string, { n: number; mean: number; m2: number }> = {};
+  private n = 0; // Frames with at least one band
+
+  add(values: BandValues): void {
+    let added = false;
+    for (const [key, value] of Object.entries(values)) {
+      if (!isFinite(value)) continue;
+      const entry = (this.stats[key] ??= { n: 0, mean: 0, m2: 0 });
+      entry.n++;
+      const delta = value - entry.mean;
+      entry.mean += delta / entry.n;
+      entry.m2 += delta * (value - entry.mean);
+      added = true;
+    }
+    if (added) this.n++;
+  }
+
+  get count(): number {
+    return this.n;
+  }
+
+  result(): BandStatsTable {
+    const table: BandStatsTable = {};
+    for (const [key, { n, mean, m2 }] of Object.entries(this.stats)) {
+      table[key] = { mean, sd: n > 1 ? Math.sqrt(m2 / (n - 1)) : 0 };
+    }
+    return table;
+  }
+
+  reset(): void {
+    this.stats = {};
+    this.n = 0;
+  }
+}
+
+/**
+ * z-score each band in the baseline against its mean and SD
+ */
+export function zScoreBands(values: BandValues, baseline: BandStatsTable): BandValues {
+  const z: BandValues = {};
+  for (const [key, { mean, sd }] of Object.entries(baseline)) {
+    const value = values[key] ?? mean;
+    z[key] = Math.max(-MAX_Z, Math.min(MAX_Z, (value - mean) / Math.max(sd, MIN_SD)));
+  }
+  return z;
+}
@@ -0,0 +1,85 @@
+// IndexedDB Access
+// Opens the app database and applies versioned schema migrations
+
+const DB_NAME = 'neuro-feedback';
+
+export const STORES = {
+  USERS: 'users',
+  SESSIONS: 'sessions',
+  RECORDINGS: 'recordings',
+  SETTINGS: 'settings',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+/**
+ * Schema migrations, keyed by the version they upgrade to
+ * Never edit a shipped migration - add the next version instead
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore(STORES.USERS, { keyPath: 'id' });
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('userId', 'userId');
+    // Raw recordings live apart from session summaries so listing stays cheap
+    db.createObjectStore(STORES.RECORDINGS); // keyed by session id
+    db.createObjectStore(STORES.SETTINGS); // key/value pairs
+  },
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+/**
+ * Open the database, upgrading the schema step by step if needed
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        console.log(`[Storage] Migrating database to v${version}`);
+        MIGRATIONS[version](db, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab wants to upgrade the schema - step aside
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => {
+      console.warn('[Storage] Database upgrade blocked - close other tabs running the app');
+    };
+  });
+}
+
+/**
+ * Run fn in a transaction and resolve with its request's result once the
+ * transaction has committed (rejects if the transaction aborts)
+ */
+export function runTransaction<T = void>(
+  db: IDBDatabase,
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = fn(tx);
+
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error ?? request?.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
@@ -0,0 +1,236 @@
+// EDF+ Export
+// Writes a session's raw EEG channels as an EDF+ file with annotations
+// for flow-state transitions, reward on/off, protocol events and user markers
+
+import type { RawRecording, Session, SessionEvent, SessionEventType } from '../types';
+
+const RECORD_DURATION_S = 1;
+const DIGITAL_MIN = -32768;
+const DIGITAL_MAX = 32767;
+const ANNOTATION_LABEL = 'EDF Annotations';
+
+const EVENT_LABELS: Record<SessionEventType, string> = {
+  flow_enter: 'Flow state start',
+  flow_exit: 'Flow state end',
+  reward_on: 'Reward on',
+  reward_off: 'Reward off',
+  crossover: 'Alpha/theta crossover',
+  baseline: 'Baseline',
+  marker: 'Marker',
+  signal_lost: 'Signal lost',
+  signal_restored: 'Signal restored',
+};
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * Encode a session's raw recording as an EDF+ (continuous) file
+ */
+export function encodeEDF(session: Session, patientName: string = 'X'): Uint8Array {
+  const recording = session.rawRecording;
+  if (!recording || recording.eeg.every((ch) => ch.samples.length === 0)) {
+    throw new Error('Session has no raw EEG recording to export');
+  }
+
+  const samplesPerRecord = Math.round(recording.sampleRate * RECORD_DURATION_S);
+  const channels = recording.eeg.map((ch) => resample(ch.timestamps, ch.samples, recording.sampleRate));
+  const numRecords = Math.max(1, Math.ceil(Math.max(...channels.map((c) => c.length)) / samplesPerRecord));
+
+  // Annotations, grouped by the data record their onset falls in
+  const sessionOffset = new Date(session.startTime).getTime() - recording.startTime;
+  const annotations: string[][] = Array.from({ length: numRecords }, () => []);
+  for (const event of session.events ?? []) {
+    const onset = Math.max(0, (sessionOffset + event.time) / 1000);
+    const record = Math.min(numRecords - 1, Math.floor(onset / RECORD_DURATION_S));
+    annotations[record].push(tal(onset, eventText(event)));
+  }
+
+  // Each record starts with a time-keeping TAL; annotation text is UTF-8
+  const encoder = new TextEncoder();
+  const annotationBlocks = annotations.map((tals, record) =>
+    encoder.encode(`+${record * RECORD_DURATION_S}\x14\x14\x00` + tals.join(''))
+  );
+  const annotationSamples = Math.ceil(Math.max(...annotationBlocks.map((b) => b.length)) / 2);
+
+  // Physical range from the data so nothing clips
+  const ranges = channels.map((samples) => physicalRange(samples));
+
+  const signals = [
+    ...recording.channelNames.map((name, i) => ({
+      label: `EEG ${name}`,
+      transducer: 'Muse dry electrode',
+      dimension: 'uV',
+      physMin: ranges[i][0],
+      physMax: ranges[i][1],
+      digMin: DIGITAL_MIN,
+      digMax: DIGITAL_MAX,
+      prefiltering: 'None',
+      samples: samplesPerRecord,
+    })),
+    {
+      label: ANNOTATION_LABEL,
+      transducer: '',
+      dimension: '',
+      physMin: -1,
+      physMax: 1,
+      digMin: DIGITAL_MIN,
+      digMax: DIGITAL_MAX,
+      prefiltering: '',
+      samples: annotationSamples,
+    },
+  ];
+
+  const header = buildHeader(recording, session, patientName, numRecords, signals);
+  const recordBytes = signals.reduce((sum, s) => sum + s.samples * 2, 0);
+  const bytes = new Uint8Array(header.length + recordBytes * numRecords);
+  bytes.set(header, 0);
+
+  const view = new DataView(bytes.buffer);
+  let offset = header.length;
+  for (let record = 0; record < numRecords; record++) {
+    channels.forEach((samples, ch) => {
+      const [physMin, physMax] = ranges[ch];
+      const scale = (DIGITAL_MAX - DIGITAL_MIN) / (physMax - physMin);
+      for (let i = 0; i < samplesPerRecord; i++) {
+        const value = samples[record * samplesPerRecord + i] ?? 0;
+        const digital = Math.round((value - physMin) * scale + DIGITAL_MIN);
+        view.setInt16(offset, Math.max(DIGITAL_MIN, Math.min(DIGITAL_MAX, digital)), true);
+        offset += 2;
+      }
+    });
+
+    // Remaining bytes stay zero-padded
+    bytes.set(annotationBlocks[record], offset);
+    offset += annotationSamples * 2;
+  }
+
+  return bytes;
+}
+
+/**
+ * Place timestamped samples on a uniform grid (gaps are filled with 0)
+ */
+function resample(timestamps: number[], samples: number[], sampleRate: number): number[] {
+  if (samples.length === 0) return [];
+  const length = Math.round((timestamps[timestamps.length - 1] * sampleRate) / 1000) + 1;
+  const grid = new Array<number>(Math.max(length, 0)).fill(0);
+  for (let i = 0; i < samples.length; i++) {
+    const index = Math.round((timestamps[i] * sampleRate) / 1000);
+    if (index >= 0 && index < grid.length && isFinite(samples[i])) {
+      grid[index] = samples[i];
+    }
+  }
+  return grid;
+}
+
+function physicalRange(samples: number[]): [number, number] {
+  let min = 0;
+  let max = 0;
+  for (const s of samples) {
+    if (s < min) min = s;
+    if (s > max) max = s;
+  }
+  if (max - min < 1) {
+    return [-1000, 1000];
+  }
+  return [Math.floor(min), Math.ceil(max)];
+}
+
+function eventText(event: SessionEvent): string {
+  const text =
+    event.type === 'marker' && event.label
+      ? event.label
+      : event.label
+        ? `${EVENT_LABELS[event.type]}: ${event.label}`
+        : EVENT_LABELS[event.type];
+  // TAL text may not contain the reserved separator bytes
+  return Array.from(text, (c) => (c.charCodeAt(0) < 0x20 ? ' ' : c)).join('');
+}
+
+/**
+ * Time-stamped Annotation List entry without duration
+ */
+function tal(onsetSeconds: number, text: string): string {
+  return `+${onsetSeconds.toFixed(3)}\x14${text}\x14\x00`;
+}
+
+function buildHeader(
+  recording: RawRecording,
+  session: Session,
+  patientName: string,
+  numRecords: number,
+  signals: {
+    label: string;
+    transducer: string;
+    dimension: string;
+    physMin: number;
+    physMax: number;
+    digMin: number;
+    digMax: number;
+    prefiltering: string;
+    samples: number;
+  }[]
+): Uint8Array {
+  const start = new Date(recording.startTime || new Date(session.startTime).getTime());
+  const dd = pad2(start.getDate());
+  const mm = pad2(start.getMonth() + 1);
+  const yy = pad2(start.getFullYear() % 100);
+  const startDate = `${dd}-${MONTHS[start.getMonth()]}-${start.getFullYear()}`;
+
+  // EDF+ subfields are space separated, so spaces inside names become underscores
+  const patient = `X X X ${edfName(patientName)}`;
+  const recordingId = `Startdate ${startDate} ${edfName(session.id.slice(0, 8))} X Muse`;
+
+  let text =
+    field('0', 8) +
+    field(patient, 80) +
+    field(recordingId, 80) +
+    field(`${dd}.${mm}.${yy}`, 8) +
+    field(`${pad2(start.getHours())}.${pad2(start.getMinutes())}.${pad2(start.getSeconds())}`, 8) +
+    field(String(256 * (signals.length + 1)), 8) +
+    field('EDF+C', 44) +
+    field(String(numRecords), 8) +
+    field(String(RECORD_DURATION_S), 8) +
+    field(String(signals.length), 4);
+
+  text += signals.map((s) => field(s.label, 16)).join('');
+  text += signals.map((s) => field(s.transducer, 80)).join('');
+  text += signals.map((s) => field(s.dimension, 8)).join('');
+  text += signals.map((s) => field(formatNumber(s.physMin), 8)).join('');
+  text += signals.map((s) => field(formatNumber(s.physMax), 8)).join('');
+  text += signals.map((s) => field(String(s.digMin), 8)).join('');
+  text += signals.map((s) => field(String(s.digMax), 8)).join('');
+  text += signals.map((s) => field(s.prefiltering, 80)).join('');
+  text += signals.map((s) => field(String(s.samples), 8)).join('');
+  text += signals.map(() => field('', 32)).join('');
+
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0x7f;
+  }
+  return bytes;
+}
+
+/**
+ * Left-justified, space-padded ASCII header field
+ */
+function field(value: string, width: number): string {
+  const ascii = value.replace(/[^\x20-\x7e]/g, '_');
+  return ascii.slice(0, width).padEnd(width, ' ');
+}
+
+function formatNumber(value: number): string {
+  for (let decimals = 3; decimals >= 0; decimals--) {
+    const text = value.toFixed(decimals);
+    if (text.length <= 8) return text;
+  }
+  return String(Math.round(value)).slice(0, 8);
+}
+
+function edfName(value: string): string {
+  return value.trim().replace(/\s+/g, '_') || 'X';
+}
+
+function pad2(value: number): string {
+  return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,173 @@
+// EEG Filter Bank
+// Stateful IIR filters (powerline notch + band-pass) that run continuously
+// per channel, so each analysis window sees settled, artifact-free output
+
+import type { FilterSettings } from '../types';
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  notchFrequency: 60,
+  highPass: 1,
+  lowPass: 50,
+};
+
+const BUTTERWORTH_Q = Math.SQRT1_2;
+const NOTCH_Q = 10; // ~5-6 Hz wide stopband, tolerant of mains frequency drift
+
+/**
+ * Second-order IIR section (RBJ cookbook coefficients, transposed direct form II)
+ */
+export class Biquad {
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+  private s1 = 0;
+  private s2 = 0;
+
+  private constructor(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number) {
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+  }
+
+  static notch(frequency: number, sampleRate: number, q: number = NOTCH_Q): Biquad {
+    const { cos, alpha } = Biquad.prewarp(frequency, sampleRate, q);
+    return new Biquad(1, -2 * cos, 1, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  static highPass(frequency: number, sampleRate: number, q: number = BUTTERWORTH_Q): Biquad {
+    const { cos, alpha } = Biquad.prewarp(frequency, sampleRate, q);
+    return new Biquad((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  static lowPass(frequency: number, sampleRate: number, q: number = BUTTERWORTH_Q): Biquad {
+    const { cos, alpha } = Biquad.prewarp(frequency, sampleRate, q);
+    return new Biquad((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  private static prewarp(frequency: number, sampleRate: number, q: number) {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    return { cos: Math.cos(w0), alpha: Math.sin(w0) / (2 * q) };
+  }
+
+  /**
+   * Gain at 0 Hz
+   */
+  get dcGain(): number {
+    return (this.b0 + this.b1 + this.b2) / (1 + this.a1 + this.a2);
+  }
+
+  /**
+   * Filter one sample
+   */
+  process(x: number): number {
+    const y = this.b0 * x + this.s1;
+    this.s1 = this.b1 * x - this.a1 * y + this.s2;
+    this.s2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+
+  /**
+   * Set the state as if x had been the input forever (no start-up transient)
+   */
+  prime(x: number): void {
+    const y = this.dcGain * x;
+    this.s2 = this.b2 * x - this.a2 * y;
+    this.s1 = this.b1 * x - this.a1 * y + this.s2;
+  }
+}
+
+/**
+ * Notch + high-pass + low-pass cascade for each EEG channel
+ */
+export class EEGFilterBank {
+  private sampleRate: number;
+  private settings: FilterSettings;
+  private chains: Biquad[][];
+  private primed: boolean[];
+  private lastInput: number[];
+
+  constructor(channels: number, sampleRate: number, settings: FilterSettings = DEFAULT_FILTER_SETTINGS) {
+    this.sampleRate = sampleRate;
+    this.settings = { ...settings };
+    this.chains = Array.from({ length: channels }, () => this.buildChain());
+    this.primed = this.chains.map(() => false);
+    this.lastInput = this.chains.map(() => 0);
+  }
+
+  /**
+   * Get current filter settings
+   */
+  getSettings(): FilterSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Change filter settings - rebuilds every channel's filters
+   */
+  setSettings(settings: Partial<FilterSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    this.reset();
+  }
+
+  /**
+   * Drop filter state (e.g. on disconnect or after a gap in the data)
+   */
+  reset(): void {
+    this.chains = this.chains.map(() => this.buildChain());
+    this.primed = this.chains.map(() => false);
+    this.lastInput = this.chains.map(() => 0);
+  }
+
+  /**
+   * Filter a block of samples for one channel, continuing from the previous block
+   * Non-finite samples (dropped packets) repeat the last valid input so they
+   * cannot poison the filter state
+   */
+  process(channel: number, samples: number[]): number[] {
+    const chain = this.chains[channel];
+    if (!chain) return samples;
+
+    const output = new Array<number>(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      let value = isFinite(samples[i]) ? samples[i] : this.lastInput[channel];
+      this.lastInput[channel] = value;
+
+      if (!this.primed[channel]) {
+        // Start from steady state on the first sample's DC offset
+        let level = value;
+        for (const stage of chain) {
+          stage.prime(level);
+          level *= stage.dcGain;
+        }
+        this.primed[channel] = true;
+      }
+
+      for (const stage of chain) {
+        value = stage.process(value);
+      }
+      output[i] = value;
+    }
+    return output;
+  }
+
+  private buildChain(): Biquad[] {
+    const { notchFrequency, highPass, lowPass } = this.settings;
+    const nyquist = this.sampleRate / 2;
+    const chain: Biquad[] = [];
+
+    if (notchFrequency !== null && notchFrequency < nyquist) {
+      chain.push(Biquad.notch(notchFrequency, this.sampleRate));
+    }
+    if (highPass > 0) {
+      chain.push(Biquad.highPass(highPass, this.sampleRate));
+    }
+    if (lowPass > highPass && lowPass < nyquist) {
+      chain.push(Biquad.lowPass(lowPass, this.sampleRate));
+    }
+    return chain;
+  }
+}
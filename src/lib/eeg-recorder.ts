@@ -0,0 +1,149 @@
+// Raw EEG Recorder
+// Captures the full-rate EEG, accelerometer and telemetry streams for a session
+
+import { SAMPLE_RATE } from './fft-processor';
+import type { BandSeries, BrainwaveBands, BrainwaveBandsDb, RawRecording } from '../types';
+
+export const EEG_CHANNEL_NAMES = ['TP9', 'AF7', 'AF8', 'TP10'];
+
+const BAND_NAMES = ['delta', 'theta', 'alpha', 'beta', 'gamma'] as const;
+
+function emptyBandSeries(): BandSeries {
+  return { delta: [], theta: [], alpha: [], beta: [], gamma: [] };
+}
+
+export class EEGRecorder {
+  private recording: RawRecording | null = null;
+
+  /**
+   * Begin a new recording, discarding any previous one
+   */
+  start(startTime: number = Date.now()): void {
+    this.recording = {
+      sampleRate: SAMPLE_RATE,
+      channelNames: [...EEG_CHANNEL_NAMES],
+      startTime,
+      eeg: EEG_CHANNEL_NAMES.map(() => ({ timestamps: [], samples: [] })),
+      accelerometer: { timestamps: [], x: [], y: [], z: [] },
+      telemetry: { timestamps: [], batteryLevel: [], temperature: [] },
+      bandPowers: {
+        timestamps: [],
+        relative: EEG_CHANNEL_NAMES.map(emptyBandSeries),
+        db: EEG_CHANNEL_NAMES.map(emptyBandSeries),
+      },
+    };
+  }
+
+  /**
+   * Finish the recording and hand it over
+   */
+  stop(): RawRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+
+  /**
+   * Check if a recording is in progress
+   */
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Append a block of EEG samples for one channel
+   * timestamp is the epoch time (ms) of the first sample in the block
+   */
+  pushEEG(channel: number, samples: number[], timestamp: number): void {
+    if (!this.recording) return;
+    const target = this.recording.eeg[channel];
+    if (!target) return;
+
+    const offset = timestamp - this.recording.startTime;
+    const interval = 1000 / this.recording.sampleRate;
+    for (let i = 0; i < samples.length; i++) {
+      target.timestamps.push(offset + i * interval);
+      target.samples.push(samples[i]);
+    }
+  }
+
+  /**
+   * Append accelerometer samples (in g), spaced evenly ending at timestamp
+   */
+  pushAccelerometer(samples: { x: number; y: number; z: number }[], timestamp: number): void {
+    if (!this.recording) return;
+    const acc = this.recording.accelerometer;
+
+    // Muse sends 3 accelerometer samples per packet at ~52 Hz
+    const interval = 1000 / 52;
+    const offset = timestamp - this.recording.startTime;
+    samples.forEach((sample, i) => {
+      acc.timestamps.push(offset - (samples.length - 1 - i) * interval);
+      acc.x.push(sample.x);
+      acc.y.push(sample.y);
+      acc.z.push(sample.z);
+    });
+  }
+
+  /**
+   * Append a telemetry reading
+   */
+  pushTelemetry(batteryLevel: number, temperature: number, timestamp: number): void {
+    if (!this.recording) return;
+    const telemetry = this.recording.telemetry;
+    telemetry.timestamps.push(timestamp - this.recording.startTime);
+    telemetry.batteryLevel.push(batteryLevel);
+    telemetry.temperature.push(temperature);
+  }
+
+  /**
+   * Append one spectral update of per-electrode band powers
+   */
+  pushBandPowers(relative: BrainwaveBands[], db: BrainwaveBandsDb[], timestamp: number): void {
+    const series = this.recording?.bandPowers;
+    if (!series) return;
+
+    series.timestamps.push(timestamp - this.recording!.startTime);
+    series.relative.forEach((channel, ch) => {
+      for (const band of BAND_NAMES) channel[band].push(relative[ch][band]);
+    });
+    series.db.forEach((channel, ch) => {
+      for (const band of BAND_NAMES) channel[band].push(db[ch][band]);
+    });
+  }
+}
+
+/**
+ * Parse a recording file - either a single exported Session
+ * (with rawRecording) or a bare RawRecording
+ */
+export function parseRecordingFile(json: string): RawRecording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Recording file is not valid JSON');
+  }
+
+  const candidate = (data as { rawRecording?: unknown })?.rawRecording ?? data;
+  const recording = candidate as Partial<RawRecording>;
+
+  if (
+    !recording ||
+    typeof recording.sampleRate !== 'number' ||
+    !Array.isArray(recording.eeg) ||
+    recording.eeg.some((ch) => !Array.isArray(ch?.samples) || !Array.isArray(ch?.timestamps))
+  ) {
+    throw new Error('File does not contain a raw EEG recording');
+  }
+
+  return {
+    sampleRate: recording.sampleRate,
+    channelNames: recording.channelNames ?? [...EEG_CHANNEL_NAMES],
+    startTime: recording.startTime ?? 0,
+    eeg: recording.eeg,
+    accelerometer: recording.accelerometer ?? { timestamps: [], x: [], y: [], z: [] },
+    telemetry: recording.telemetry ?? { timestamps: [], batteryLevel: [], temperature: [] },
+    ...(recording.bandPowers && { bandPowers: recording.bandPowers }),
+  };
+}
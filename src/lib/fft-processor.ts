@@ -4,6 +4,23 @@
 export const FFT_SIZE = 256;
 export const SAMPLE_RATE = 256; // Muse samples at 256 Hz
 
+export type WelchAveraging = 'mean' | 'median';
+
+/**
+ * Welch PSD estimate settings
+ */
+export interface WelchOptions {
+  segmentLength: number; // samples per FFT segment (power of 2)
+  overlap: number; // fraction of each segment shared with the next (0 - 0.9)
+  averaging: WelchAveraging; // median is robust to short artifacts
+}
+
+export const DEFAULT_WELCH_OPTIONS: WelchOptions = {
+  segmentLength: FFT_SIZE,
+  overlap: 0.5,
+  averaging: 'mean',
+};
+
 export class FFTProcessor {
   private size: number;
   private real: Float32Array;
@@ -90,11 +107,67 @@ export class FFTProcessor {
     return magnitudes;
   }
 
+  /**
+   * Welch spectrum: split samples into overlapping segments of the FFT
+   * size, then average the segment power spectra. Returned as magnitudes
+   * (sqrt of averaged power) so the band power helpers apply unchanged.
+   * Segments touching a sample flagged in `exclude` (artifacts) are skipped;
+   * if every segment is excluded the result is empty.
+   */
+  welch(
+    samples: number[],
+    overlap: number = DEFAULT_WELCH_OPTIONS.overlap,
+    averaging: WelchAveraging = DEFAULT_WELCH_OPTIONS.averaging,
+    exclude?: boolean[]
+  ): Float32Array {
+    const n = this.size;
+    const hop = Math.max(1, Math.round(n * (1 - Math.min(0.9, Math.max(0, overlap)))));
+
+    // Segments are aligned to the end of the buffer so the newest samples always count
+    const spectra: Float32Array[] = [];
+    let rejected = 0;
+    for (let end = samples.length; end - n >= 0; end -= hop) {
+      if (exclude?.slice(end - n, end).some(Boolean)) {
+        rejected++;
+        continue;
+      }
+      const magnitudes = this.compute(samples.slice(end - n, end));
+      for (let i = 0; i < magnitudes.length; i++) {
+        magnitudes[i] *= magnitudes[i];
+      }
+      spectra.push(magnitudes);
+    }
+
+    if (spectra.length === 0 && rejected > 0) return new Float32Array(0);
+    const result = new Float32Array(n / 2);
+    if (spectra.length === 0) return result;
+
+    const bias = averaging === 'median' ? medianBias(spectra.length) : 1;
+    const column = new Float64Array(spectra.length);
+    for (let i = 0; i < result.length; i++) {
+      let power: number;
+      if (averaging === 'median') {
+        for (let s = 0; s < spectra.length; s++) column[s] = spectra[s][i];
+        column.sort();
+        const mid = column.length >> 1;
+        power = column.length % 2 ? column[mid] : (column[mid - 1] + column[mid]) / 2;
+        power /= bias;
+      } else {
+        power = 0;
+        for (const spectrum of spectra) power += spectrum[i];
+        power /= spectra.length;
+      }
+      result[i] = Math.sqrt(power);
+    }
+
+    return result;
+  }
+
   /**
    * Get power in a frequency band (returns average power)
    */
   getBandPower(magnitudes: Float32Array, lowFreq: number, highFreq: number): number {
-    const freqResolution = SAMPLE_RATE / this.size;
+    const freqResolution = spectrumBinWidth(magnitudes);
     // Start at bin 1 minimum to exclude DC component (bin 0)
     const lowBin = Math.max(1, Math.floor(lowFreq / freqResolution));
     const highBin = Math.ceil(highFreq / freqResolution);
@@ -113,7 +186,7 @@ export class FFTProcessor {
    * Get total (sum) power in a frequency band - used for absolute dB calculation
    */
   getBandPowerSum(magnitudes: Float32Array, lowFreq: number, highFreq: number): number {
-    const freqResolution = SAMPLE_RATE / this.size;
+    const freqResolution = spectrumBinWidth(magnitudes);
     const lowBin = Math.max(1, Math.floor(lowFreq / freqResolution));
     const highBin = Math.ceil(highFreq / freqResolution);
 
@@ -124,20 +197,24 @@ export class FFTProcessor {
 
     return sum;
   }
+}
 
-  /**
-   * Simple high-pass filter to remove DC drift
-   */
-  highPassFilter(samples: number[], cutoff: number = 1.0): number[] {
-    const rc = 1.0 / (2 * Math.PI * cutoff);
-    const dt = 1.0 / SAMPLE_RATE;
-    const alpha = rc / (rc + dt);
-
-    const filtered: number[] = new Array(samples.length);
-    filtered[0] = 0;
-    for (let i = 1; i < samples.length; i++) {
-      filtered[i] = alpha * (filtered[i - 1] + samples[i] - samples[i - 1]);
-    }
-    return filtered;
+/**
+ * Bin spacing (Hz) of a magnitude spectrum from compute() or welch(), which
+ * hold the bins below Nyquist - half the segment length
+ */
+export function spectrumBinWidth(magnitudes: ArrayLike<number>): number {
+  return SAMPLE_RATE / (2 * magnitudes.length);
+}
+
+/**
+ * Ratio of the median to the mean of a chi-squared (2 dof) periodogram
+ * estimate over n segments - divides out the median's low bias
+ */
+function medianBias(n: number): number {
+  let bias = 1;
+  for (let k = 2; k < n; k += 2) {
+    bias += 1 / (k + 1) - 1 / k;
   }
+  return bias;
 }
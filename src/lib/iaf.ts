@@ -0,0 +1,113 @@
+// Individual Alpha Frequency (IAF)
+// Finds a user's alpha peak from eyes-closed spectra. Band edges are defined
+// relative to a 10 Hz peak, so the table shifts by (IAF - 10) Hz
+
+import { spectrumBinWidth } from './fft-processor';
+import type { BandDefinition } from '../types';
+
+export const STANDARD_IAF = 10; // Hz - peak the default band table assumes
+
+const SEARCH_RANGE: [number, number] = [7, 14]; // Hz searched for the peak
+const MIN_PROMINENCE = 1.5; // Peak power over the power at the search edges
+const MAX_HORSESHOE = 2; // Only average electrodes with medium or better contact
+
+// Boundaries that move with the alpha peak: delta|theta, theta|alpha, alpha|beta
+const SHIFTED_EDGES: Record<string, ('low' | 'high')[]> = {
+  delta: ['high'],
+  theta: ['low', 'high'],
+  alpha: ['low', 'high'],
+  beta: ['low'],
+};
+
+export interface AlphaPeak {
+  frequency: number; // Hz, interpolated between bins
+  prominence: number; // Peak power / edge power
+}
+
+/**
+ * Find the alpha peak in a power spectrum (one value per FFT bin below
+ * Nyquist). Returns null if there is no clear peak inside 7-14 Hz
+ */
+export function findAlphaPeak(power: ArrayLike<number>): AlphaPeak | null {
+  const binHz = spectrumBinWidth(power);
+  const lowBin = Math.round(SEARCH_RANGE[0] / binHz);
+  const highBin = Math.min(power.length - 2, Math.round(SEARCH_RANGE[1] / binHz));
+  if (highBin <= lowBin + 1) return null;
+
+  let peakBin = lowBin + 1;
+  for (let i = lowBin + 1; i < highBin; i++) {
+    if (power[i] > power[peakBin]) peakBin = i;
+  }
+
+  // A maximum at the edge of the search range is 1/f slope, not a peak
+  if (power[peakBin] <= power[peakBin - 1] || power[peakBin] <= power[peakBin + 1]) return null;
+
+  const edgePower = Math.max(power[lowBin], power[highBin]);
+  const prominence = edgePower > 0 ? power[peakBin] / edgePower : 0;
+  if (!(prominence >= MIN_PROMINENCE)) return null;
+
+  // Parabolic interpolation through the peak bin and its neighbors
+  const [a, b, c] = [power[peakBin - 1], power[peakBin], power[peakBin + 1]];
+  const offset = (0.5 * (a - c)) / (a - 2 * b + c);
+
+  return {
+    frequency: Math.round((peakBin + (isFinite(offset) ? offset : 0)) * binHz * 10) / 10,
+    prominence,
+  };
+}
+
+/**
+ * Accumulates eyes-closed spectra and reports the averaged alpha peak
+ */
+export class IAFCalibrator {
+  private sum: Float64Array | null = null;
+  private frames = 0;
+
+  /**
+   * Add one frame of per-electrode Welch magnitudes [TP9, AF7, AF8, TP10]
+   * Electrodes with poor contact or no spectrum yet are skipped
+   */
+  addSpectra(spectra: Float32Array[], horseshoe: number[]): void {
+    const usable = spectra.filter((s, ch) => s.length > 0 && (horseshoe[ch] ?? 4) <= MAX_HORSESHOE);
+    if (usable.length === 0) return;
+
+    if (!this.sum || this.sum.length !== usable[0].length) {
+      this.sum = new Float64Array(usable[0].length);
+      this.frames = 0;
+    }
+    for (const magnitudes of usable) {
+      for (let i = 0; i < this.sum.length; i++) {
+        this.sum[i] += (magnitudes[i] * magnitudes[i]) / usable.length;
+      }
+    }
+    this.frames++;
+  }
+
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  result(): AlphaPeak | null {
+    return this.sum && this.frames > 0 ? findAlphaPeak(this.sum) : null;
+  }
+
+  reset(): void {
+    this.sum = null;
+    this.frames = 0;
+  }
+}
+
+/**
+ * Shift the theta/alpha/beta boundaries of a band table by (IAF - 10) Hz
+ */
+export function applyIAF(table: BandDefinition[], iaf: number | undefined): BandDefinition[] {
+  if (iaf === undefined || !isFinite(iaf)) return table;
+  const shift = iaf - STANDARD_IAF;
+  return table.map((band) => {
+    const edges = SHIFTED_EDGES[band.key];
+    if (!edges) return band;
+    const shifted = { ...band };
+    for (const edge of edges) shifted[edge] = Math.round((band[edge] + shift) * 10) / 10;
+    return shifted;
+  });
+}
@@ -1,6 +1,25 @@
 // Library exports
-export { museHandler, MuseHandler } from './muse-handler';
+export { museHandler, MuseHandler, EEGSimulator, SIMULATOR_SCENARIOS } from './muse-handler';
 export { audioEngine, AudioEngine } from './audio-engine';
-export { FlowStateDetector, calculateCoherence, getCoherenceZone } from './flow-state';
-export { storage, StorageManager, calculateSessionStats, formatTime, formatTimeWithUnit } from './storage';
-export { FFTProcessor } from './fft-processor';
+export {
+  PROTOCOLS,
+  DEFAULT_PROTOCOL,
+  ProtocolRunner,
+  getCoherenceZone,
+  calculateCoherence,
+  calculateBaselineCoherence,
+  calculateAsymmetry,
+} from './protocols';
+export { storage, StorageManager, StorageError, calculateSessionStats, formatTime, formatTimeWithUnit } from './storage';
+export { openDatabase, DB_VERSION } from './database';
+export { FFTProcessor, DEFAULT_WELCH_OPTIONS } from './fft-processor';
+export { isMindMonitorCSV, parseMindMonitorCSV } from './mind-monitor';
+export { encodeEDF } from './edf-export';
+export { EEGRecorder, EEG_CHANNEL_NAMES, parseRecordingFile } from './eeg-recorder';
+export { EEGFilterBank, Biquad, DEFAULT_FILTER_SETTINGS } from './eeg-filter';
+export { ArtifactDetector, DEFAULT_ARTIFACT_THRESHOLDS } from './artifact-detector';
+export { MotionEstimator } from './motion-estimator';
+export { PPGProcessor, PPG_SAMPLE_RATE, PPG_CHANNEL } from './ppg-processor';
+export { DEFAULT_BAND_TABLE, BAND_PRESETS, normalizeBandTable } from './band-table';
+export { BASELINE_PHASES, BandStatsRecorder, zScoreBands } from './baseline';
+export { IAFCalibrator, findAlphaPeak, applyIAF, STANDARD_IAF } from './iaf';
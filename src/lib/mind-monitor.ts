@@ -0,0 +1,283 @@
+// Mind Monitor CSV Import
+// Rebuilds sessions from Mind Monitor recordings by running their band powers
+// through the same smoothing and Quiet Power protocol as live data
+
+import { ProtocolRunner, QUIET_POWER } from './protocols';
+import { EEG_CHANNEL_NAMES } from './eeg-recorder';
+import { MotionEstimator } from './motion-estimator';
+import { FFT_SIZE, SAMPLE_RATE } from './fft-processor';
+import { DEFAULT_BAND_TABLE, toRelativePower } from './band-table';
+import type { BandDefinition, BandValues, BrainwaveBands, RawRecording, Session } from '../types';
+
+const BANDS = ['delta', 'theta', 'alpha', 'beta', 'gamma'] as const;
+const BAND_COLUMNS: Record<keyof BrainwaveBands, string> = {
+  delta: 'Delta',
+  theta: 'Theta',
+  alpha: 'Alpha',
+  beta: 'Beta',
+  gamma: 'Gamma',
+};
+
+const NO_BANDS: BrainwaveBands = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
+
+const FRAME_MS = 1000 / 60; // Live pipeline runs once per animation frame (~60 fps)
+const SMOOTHING = 0.7; // Matches MuseHandler.smoothingFactor
+
+interface MindMonitorRow {
+  time: number; // epoch ms
+  bands: BrainwaveBands | null; // relative powers (0-1)
+  horseshoe: number[] | null; // electrode contact, 1 = good ... 4 = off
+  acc: { x: number; y: number; z: number } | null;
+  raw: number[] | null; // µV [TP9, AF7, AF8, TP10]
+}
+
+/**
+ * Check if text looks like a Mind Monitor CSV export
+ */
+export function isMindMonitorCSV(text: string): boolean {
+  return /^\uFEFF?"?TimeStamp"?,/.test(text);
+}
+
+/**
+ * Convert a Mind Monitor CSV export into a session for the given user
+ */
+export function parseMindMonitorCSV(text: string, userId: string): Omit<Session, 'id'> {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('Mind Monitor file contains no data');
+  }
+
+  const header = splitLine(lines[0]);
+  const column = (name: string) => header.indexOf(name);
+
+  const bandColumns = BANDS.map((band) =>
+    EEG_CHANNEL_NAMES.map((ch) => column(`${BAND_COLUMNS[band]}_${ch}`))
+  );
+  if (column('TimeStamp') === -1 || bandColumns[2].every((i) => i === -1)) {
+    throw new Error('Not a Mind Monitor CSV export (missing band power columns)');
+  }
+
+  const hsiColumns = EEG_CHANNEL_NAMES.map((ch) => column(`HSI_${ch}`));
+  const rawColumns = EEG_CHANNEL_NAMES.map((ch) => column(`RAW_${ch}`));
+  const accColumns = ['X', 'Y', 'Z'].map((axis) => column(`Accelerometer_${axis}`));
+
+  const rows: MindMonitorRow[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = splitLine(line);
+    const time = parseTimestamp(cells[column('TimeStamp')]);
+    if (isNaN(time)) continue;
+
+    const value = (index: number) => (index === -1 ? NaN : parseFloat(cells[index]));
+
+    rows.push({
+      time,
+      bands: readBands(bandColumns.map((cols) => cols.map(value))),
+      horseshoe: readHorseshoe(hsiColumns.map(value), value(column('HeadBandOn'))),
+      acc: accColumns.every((i) => isFinite(value(i)))
+        ? { x: value(accColumns[0]), y: value(accColumns[1]), z: value(accColumns[2]) }
+        : null,
+      raw: rawColumns.every((i) => isFinite(value(i))) ? rawColumns.map(value) : null,
+    });
+  }
+
+  rows.sort((a, b) => a.time - b.time);
+  if (!rows.some((row) => row.bands)) {
+    throw new Error('Mind Monitor file contains no band power data');
+  }
+
+  const startTime = rows[0].time;
+  const endTime = rows[rows.length - 1].time;
+  const rawRecording = buildRawRecording(rows, startTime);
+
+  return {
+    userId,
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    duration: endTime - startTime,
+    protocol: { name: QUIET_POWER.name, label: QUIET_POWER.label, settings: { ...QUIET_POWER.defaultSettings } },
+    ...replayPipeline(rows, startTime, endTime),
+    ...(rawRecording && { rawRecording }),
+  };
+}
+
+/**
+ * Feed rows through smoothing and the Quiet Power protocol frame by frame,
+ * holding the latest row between updates as the live loop does
+ */
+function replayPipeline(
+  rows: MindMonitorRow[],
+  startTime: number,
+  endTime: number
+): Pick<Session, 'flowStateTime' | 'longestStreak' | 'avgCoherence' | 'coherenceHistory'> {
+  const runner = new ProtocolRunner(QUIET_POWER);
+  const smooth: BrainwaveBands = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
+  let hasBands = false;
+  let horseshoe = [1, 1, 1, 1];
+  const motion = new MotionEstimator();
+
+  const coherenceHistory: number[] = [];
+  let lastHistoryTime = startTime;
+  let flowStateTime = 0;
+  let longestStreak = 0;
+  let flowStart: number | null = null;
+
+  let rowIndex = 0;
+  for (let t = startTime; t <= endTime; t += FRAME_MS) {
+    while (rowIndex < rows.length && rows[rowIndex].time <= t) {
+      const row = rows[rowIndex++];
+      if (row.bands) {
+        for (const band of BANDS) {
+          smooth[band] = smooth[band] * SMOOTHING + row.bands[band] * (1 - SMOOTHING);
+        }
+        hasBands = true;
+      }
+      if (row.horseshoe) horseshoe = row.horseshoe;
+      // Same motion estimate as live headbands
+      if (row.acc) motion.add(row.acc, row.time);
+    }
+    if (!hasBands) continue;
+
+    // Mind Monitor has no per-electrode, absolute, spectral or heart data to offer
+    const flowState = runner.update(
+      {
+        bands: { ...smooth },
+        bandsDb: NO_BANDS,
+        channelBands: EEG_CHANNEL_NAMES.map(() => NO_BANDS),
+        channelBandsDb: EEG_CHANNEL_NAMES.map(() => NO_BANDS),
+        spectra: [],
+        zBands: null,
+        horseshoe,
+        motion: motion.level,
+        artifact: false,
+        heart: null,
+      },
+      t
+    );
+    const coherence = flowState.score;
+
+    if (t - lastHistoryTime >= 1000) {
+      coherenceHistory.push(coherence);
+      lastHistoryTime = t;
+    }
+
+    if (flowState.isActive) {
+      if (flowStart === null) flowStart = t;
+      longestStreak = Math.max(longestStreak, t - flowStart);
+    } else if (flowStart !== null) {
+      flowStateTime += t - flowStart;
+      flowStart = null;
+    }
+  }
+
+  if (flowStart !== null) {
+    flowStateTime += endTime - flowStart;
+    longestStreak = Math.max(longestStreak, endTime - flowStart);
+  }
+
+  const avgCoherence =
+    coherenceHistory.length > 0
+      ? coherenceHistory.reduce((a, b) => a + b, 0) / coherenceHistory.length
+      : 0;
+
+  return {
+    flowStateTime: Math.round(flowStateTime),
+    longestStreak: Math.round(longestStreak),
+    avgCoherence,
+    coherenceHistory,
+  };
+}
+
+/**
+ * Mind Monitor stores absolute band power as log10(µV²) per electrode,
+ * summed over the band's bins. Average linear power across electrodes, turn
+ * it into power per bin and apply the live pipeline's relative power
+ */
+function readBands(values: number[][]): BrainwaveBands | null {
+  // Columns come in core band order, as does the default table
+  const power: BandValues = {};
+  for (const [i, band] of DEFAULT_BAND_TABLE.entries()) {
+    const valid = values[i].filter((v) => isFinite(v));
+    if (valid.length === 0) return null;
+    const linear = valid.reduce((sum, v) => sum + Math.pow(10, v), 0) / valid.length;
+    power[band.key] = linear / binCount(band);
+  }
+
+  const relative = toRelativePower(power, DEFAULT_BAND_TABLE);
+  if (!relative) return null;
+  const [delta, theta, alpha, beta, gamma] = BANDS.map((band) => relative[band]);
+  return { delta, theta, alpha, beta, gamma };
+}
+
+/**
+ * Bins a default band spans at Mind Monitor's 256-point FFT - the same
+ * range FFTProcessor.getBandPower averages over
+ */
+function binCount(band: BandDefinition): number {
+  const binHz = SAMPLE_RATE / FFT_SIZE;
+  return Math.ceil(band.high / binHz) - Math.max(1, Math.floor(band.low / binHz)) + 1;
+}
+
+/**
+ * Horseshoe (HSI) values: 1 = good, 2 = medium, 4 = bad
+ * Mind Monitor averages HSI, so round to the nearest live horseshoe level
+ */
+function readHorseshoe(hsi: number[], headBandOn: number): number[] | null {
+  if (hsi.every((v) => isFinite(v))) {
+    return hsi.map((v) => (v <= 1.5 ? 1 : v <= 2.5 ? 2 : 4));
+  }
+  if (isFinite(headBandOn)) {
+    return EEG_CHANNEL_NAMES.map(() => (headBandOn > 0 ? 1 : 4));
+  }
+  return null;
+}
+
+/**
+ * Keep raw EEG only for "constant" (full-rate) recordings - at 1 row per
+ * second the RAW_ columns are single samples, not a usable signal
+ */
+function buildRawRecording(rows: MindMonitorRow[], startTime: number): RawRecording | null {
+  const rawRows = rows.filter((row) => row.raw);
+  if (rawRows.length < SAMPLE_RATE) return null;
+
+  const span = rawRows[rawRows.length - 1].time - rawRows[0].time;
+  if (span <= 0 || rawRows.length / (span / 1000) < SAMPLE_RATE / 2) return null;
+
+  const recording: RawRecording = {
+    sampleRate: SAMPLE_RATE,
+    channelNames: [...EEG_CHANNEL_NAMES],
+    startTime,
+    eeg: EEG_CHANNEL_NAMES.map(() => ({ timestamps: [], samples: [] })),
+    accelerometer: { timestamps: [], x: [], y: [], z: [] },
+    telemetry: { timestamps: [], batteryLevel: [], temperature: [] },
+  };
+
+  for (const row of rows) {
+    const offset = row.time - startTime;
+    if (row.raw) {
+      row.raw.forEach((sample, ch) => {
+        recording.eeg[ch].timestamps.push(offset);
+        recording.eeg[ch].samples.push(sample);
+      });
+    }
+    if (row.acc) {
+      recording.accelerometer.timestamps.push(offset);
+      recording.accelerometer.x.push(row.acc.x);
+      recording.accelerometer.y.push(row.acc.y);
+      recording.accelerometer.z.push(row.acc.z);
+    }
+  }
+
+  return recording;
+}
+
+/**
+ * Mind Monitor timestamps are local time: "2021-03-14 10:23:45.123"
+ */
+function parseTimestamp(value: string | undefined): number {
+  if (!value) return NaN;
+  return new Date(value.trim().replace(' ', 'T')).getTime();
+}
+
+function splitLine(line: string): string[] {
+  return line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+}
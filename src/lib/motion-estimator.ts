@@ -0,0 +1,124 @@
+// Motion Estimator
+// Turns the accelerometer stream into a head motion level and posture:
+// gravity is tracked with a slow low-pass and removed, motion is the jerk
+// over a short window above the device's resting noise floor, and posture
+// comes from the gravity direction
+
+import type { HeadPosture } from '../types';
+
+export interface AccelerometerSample {
+  x: number; // g
+  y: number;
+  z: number;
+}
+
+interface MotionFrame {
+  time: number; // ms
+  linear: number; // |acceleration - gravity| in g
+  jerk: number; // g/s
+}
+
+const NOMINAL_INTERVAL_MS = 1000 / 52; // Muse accelerometer rate - closer samples don't inflate jerk
+const GRAVITY_TAU_MS = 1000; // Low-pass time constant for the gravity estimate
+const WINDOW_MS = 2000; // Motion is measured over this window
+const SETTLE_MS = 1000; // Posture is unknown until gravity has settled
+const JERK_FULL_SCALE = 10; // g/s above the noise floor that reads as full motion
+const LINEAR_FULL_SCALE = 0.3; // g of non-gravity acceleration that reads as full motion
+const FLOOR_RISE_PER_S = 0.02; // Noise floor drifts up this fraction per second, and drops at once
+const SLUMPED_TILT = 20; // Degrees from vertical
+const LYING_TILT = 60;
+
+export class MotionEstimator {
+  private gravity: AccelerometerSample | null = null;
+  private previous: { time: number; sample: AccelerometerSample } | null = null;
+  private firstTime: number | null = null;
+  private frames: MotionFrame[] = [];
+  private noiseFloor: number | null = null; // Resting jerk in g/s
+  private _level = 0;
+
+  /**
+   * Add one accelerometer sample taken at `time` (ms)
+   */
+  add(sample: AccelerometerSample, time: number): void {
+    const previous = this.previous;
+    // Repeated readings (e.g. CSV rows between accelerometer updates) carry no new information
+    if (previous && sample.x === previous.sample.x && sample.y === previous.sample.y && sample.z === previous.sample.z) {
+      return;
+    }
+    this.previous = { time, sample };
+    this.firstTime ??= time;
+
+    if (!previous || !this.gravity) {
+      this.gravity = { ...sample };
+      return;
+    }
+
+    const dt = Math.max(NOMINAL_INTERVAL_MS, time - previous.time);
+    const k = 1 - Math.exp(-dt / GRAVITY_TAU_MS);
+    this.gravity.x += (sample.x - this.gravity.x) * k;
+    this.gravity.y += (sample.y - this.gravity.y) * k;
+    this.gravity.z += (sample.z - this.gravity.z) * k;
+
+    const linear = Math.hypot(sample.x - this.gravity.x, sample.y - this.gravity.y, sample.z - this.gravity.z);
+    const jerk =
+      (Math.hypot(sample.x - previous.sample.x, sample.y - previous.sample.y, sample.z - previous.sample.z) * 1000) / dt;
+
+    this.frames.push({ time, linear, jerk });
+    while (this.frames.length > 0 && time - this.frames[0].time > WINDOW_MS) {
+      this.frames.shift();
+    }
+
+    this.updateLevel(dt);
+  }
+
+  /**
+   * Calibrated motion level (0-1) over the last window
+   */
+  get level(): number {
+    return this._level;
+  }
+
+  /**
+   * Head posture from the tilt of gravity away from the headband's vertical axis
+   */
+  get posture(): HeadPosture {
+    const gravity = this.gravity;
+    if (!gravity || !this.previous || this.firstTime === null || this.previous.time - this.firstTime < SETTLE_MS) {
+      return 'unknown';
+    }
+    const magnitude = Math.hypot(gravity.x, gravity.y, gravity.z);
+    if (magnitude < 0.5) return 'unknown'; // Not a plausible gravity reading
+
+    const tilt = (Math.acos(Math.min(1, Math.abs(gravity.z) / magnitude)) * 180) / Math.PI;
+    if (tilt >= LYING_TILT) return 'lying';
+    if (tilt >= SLUMPED_TILT) return 'slumped';
+    return 'upright';
+  }
+
+  reset(): void {
+    this.gravity = null;
+    this.previous = null;
+    this.firstTime = null;
+    this.frames = [];
+    this.noiseFloor = null;
+    this._level = 0;
+  }
+
+  private updateLevel(dt: number): void {
+    let linearSquares = 0;
+    let jerkSum = 0;
+    for (const frame of this.frames) {
+      linearSquares += frame.linear * frame.linear;
+      jerkSum += frame.jerk;
+    }
+    const linearRms = Math.sqrt(linearSquares / this.frames.length);
+    const jerk = jerkSum / this.frames.length;
+
+    // Calibrate against the quietest window seen so far, so sensor noise reads as still
+    this.noiseFloor =
+      this.noiseFloor === null ? jerk : Math.min(jerk, this.noiseFloor * (1 + (FLOOR_RISE_PER_S * dt) / 1000));
+
+    const jerkLevel = Math.max(0, jerk - this.noiseFloor) / JERK_FULL_SCALE;
+    this._level = Math.min(1, Math.max(jerkLevel, linearRms / LINEAR_FULL_SCALE));
+  }
+}
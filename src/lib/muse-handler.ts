@@ -1,12 +1,27 @@
 // Muse EEG Handler - Adapted from strudel's muse.mjs
-// Supports Web Bluetooth and OSC connections
+// Supports Web Bluetooth and OSC connections, plus recorded and simulated headbands
 
-import { MuseClient } from 'muse-js';
+import { MuseClient, MUSE_SERVICE } from 'muse-js';
 import OSC from 'osc-js';
-import { FFTProcessor, FFT_SIZE } from './fft-processor';
-import type { BrainwaveBands, BrainwaveBandsDb, MuseState } from '../types';
-
-type ConnectionMode = 'bluetooth' | 'osc' | null;
+import { FFTProcessor, DEFAULT_WELCH_OPTIONS, FFT_SIZE, SAMPLE_RATE } from './fft-processor';
+import type { WelchOptions } from './fft-processor';
+import { EEGFilterBank, DEFAULT_FILTER_SETTINGS } from './eeg-filter';
+import { EEGRecorder, EEG_CHANNEL_NAMES } from './eeg-recorder';
+import { ArtifactDetector } from './artifact-detector';
+import { MotionEstimator } from './motion-estimator';
+import { PPGProcessor, PPG_CHANNEL, PPG_SAMPLE_RATE } from './ppg-processor';
+import { CORE_BAND_KEYS, DEFAULT_BAND_TABLE, isCoreBand, normalizeBandTable, toRelativePower } from './band-table';
+import type {
+  BandDefinition,
+  BandValues,
+  BrainwaveBands,
+  BrainwaveBandsDb,
+  FilterSettings,
+  MuseState,
+  RawRecording,
+} from '../types';
+
+type ConnectionMode = 'bluetooth' | 'osc' | 'replay' | 'simulator' | null;
 type BrainState = 'disconnected' | 'deep' | 'meditative' | 'relaxed' | 'focused' | 'neutral';
 
 export interface MuseEventCallbacks {
@@ -18,6 +33,408 @@ export interface MuseEventCallbacks {
   onDataUpdate?: (state: MuseState) => void;
 }
 
+// ============== Simulated Headband ==============
+
+export interface SimulatorParams {
+  alpha: number; // Alpha (~10 Hz) amplitude, µV
+  beta: number; // Beta (~20 Hz) amplitude, µV
+  theta: number; // Theta (~6 Hz) amplitude, µV
+  background: number; // 1/f background amplitude, µV
+  blinkRate: number; // Random eye blinks per minute
+  jawClenchRate: number; // Random jaw clenches per minute
+  motion: number; // Continuous head motion (0-1)
+  dropout: boolean[]; // Electrodes without contact [TP9, AF7, AF8, TP10]
+  heartRate: number; // Mean heart rate, bpm
+  breathingRate: number; // Breaths per minute
+  rsa: number; // Heart rate swing with each breath (respiratory sinus arrhythmia), ± bpm
+  heartRateWander: number; // Irregular slow drift in heart rate, ± bpm (standard deviation)
+}
+
+export type SimulatorEvent = 'blink' | 'jawClench' | 'motionBurst';
+
+export interface SimulatorStep {
+  at: number; // ms from scenario start
+  params?: Partial<SimulatorParams>;
+  rampMs?: number; // Linear transition for numeric params (default: instant)
+  events?: SimulatorEvent[]; // One-off artifacts fired at this step
+}
+
+export interface SimulatorScenario {
+  name: string;
+  label: string;
+  description: string;
+  duration?: number; // ms - scenario loops after this if set
+  steps: SimulatorStep[];
+}
+
+export type SimulatorScenarioName = 'calm' | 'flow_cycle' | 'paced_breathing' | 'artifacts';
+
+export const DEFAULT_SIMULATOR_PARAMS: SimulatorParams = {
+  alpha: 20,
+  beta: 8,
+  theta: 8,
+  background: 6,
+  blinkRate: 0,
+  jawClenchRate: 0,
+  motion: 0,
+  dropout: [false, false, false, false],
+  heartRate: 66,
+  breathingRate: 12,
+  rsa: 3,
+  heartRateWander: 3,
+};
+
+export const SIMULATOR_SCENARIOS: Record<SimulatorScenarioName, SimulatorScenario> = {
+  calm: {
+    name: 'calm',
+    label: 'Steady Calm',
+    description: 'Strong, stable alpha with occasional blinks',
+    steps: [{ at: 0, params: { alpha: 30, beta: 6, theta: 10, blinkRate: 4 } }],
+  },
+  flow_cycle: {
+    name: 'flow_cycle',
+    label: 'Flow Cycle',
+    description: 'Active mind settling into calm and back, every 90s',
+    duration: 90000,
+    steps: [
+      { at: 0, params: { alpha: 8, beta: 18, theta: 6, blinkRate: 10, heartRate: 74, breathingRate: 15, rsa: 2 } },
+      {
+        at: 15000,
+        params: { alpha: 30, beta: 6, theta: 10, blinkRate: 3, heartRate: 62, breathingRate: 6, rsa: 8 },
+        rampMs: 15000,
+      },
+      {
+        at: 70000,
+        params: { alpha: 8, beta: 18, theta: 6, blinkRate: 10, heartRate: 74, breathingRate: 15, rsa: 2 },
+        rampMs: 5000,
+      },
+    ],
+  },
+  paced_breathing: {
+    name: 'paced_breathing',
+    label: 'Paced Breathing',
+    description: 'Irregular heart rhythm settling into 6 breaths/min resonance and back, every 4 min',
+    duration: 240000,
+    steps: [
+      { at: 0, params: { heartRate: 72, breathingRate: 14, rsa: 1.5, heartRateWander: 4 } },
+      { at: 60000, params: { heartRate: 64, breathingRate: 6, rsa: 8, heartRateWander: 1 }, rampMs: 20000 },
+      { at: 180000, params: { heartRate: 72, breathingRate: 14, rsa: 1.5, heartRateWander: 4 }, rampMs: 10000 },
+    ],
+  },
+  artifacts: {
+    name: 'artifacts',
+    label: 'Artifact Test',
+    description: 'Calm baseline interrupted by blinks, clenches, motion and drop-outs',
+    duration: 60000,
+    steps: [
+      { at: 0, params: { alpha: 30, beta: 6, theta: 10, dropout: [false, false, false, false] } },
+      { at: 10000, events: ['blink'] },
+      { at: 11000, events: ['blink'] },
+      { at: 12000, events: ['blink'] },
+      { at: 20000, events: ['jawClench'] },
+      { at: 30000, events: ['motionBurst'] },
+      { at: 40000, params: { dropout: [false, true, false, false] } },
+      { at: 50000, params: { dropout: [false, false, false, false], motion: 0.5 } },
+      { at: 55000, params: { motion: 0 } },
+    ],
+  },
+};
+
+const ARTIFACT_DURATION_MS: Record<SimulatorEvent, number> = {
+  blink: 250,
+  jawClench: 500,
+  motionBurst: 1200,
+};
+
+// Per-channel gains [TP9, AF7, AF8, TP10]
+const ALPHA_GAIN = [1, 0.7, 0.7, 1]; // Alpha is strongest over temporal/posterior sites
+const BLINK_GAIN = [0.1, 1, 1, 0.1]; // Blinks show up on the forehead electrodes
+const JAW_GAIN = [1, 0.6, 0.6, 1]; // Jaw EMG is strongest near the ears
+
+const ACC_SAMPLE_RATE = 52; // Hz
+const PPG_BASELINE = 80000; // Raw infrared reading
+const PPG_PULSE = 600; // Dip in the reading at each systolic peak
+const WANDER_TAU_S = 10; // Correlation time of the irregular heart rate drift
+
+/**
+ * Pulse wave over one beat (0-1 phase): systolic peak then the dicrotic wave
+ */
+function pulseShape(phase: number): number {
+  return Math.exp(-(((phase - 0.15) / 0.07) ** 2)) + 0.4 * Math.exp(-(((phase - 0.45) / 0.08) ** 2));
+}
+
+/**
+ * Synthetic 4-channel EEG source driven by a scriptable scenario
+ */
+export class EEGSimulator {
+  private scenario: SimulatorScenario;
+  private overrides: Partial<SimulatorParams> = {};
+  private sampleIndex = 0;
+  private accIndex = 0;
+  private ppgIndex = 0;
+  private beatPhase = 0; // Cycles, fractional part is the position within a beat
+  private breathPhase = 0; // Radians
+  private heartRateDrift = 0; // bpm, irregular component of the heart rate
+  private lastScenarioTime = -1;
+  private artifacts: { event: SimulatorEvent; start: number; length: number }[] = [];
+
+  // Random phases per channel for [alpha, beta, theta, modulation, motion]
+  private phases: number[][];
+  // Pink noise filter state per channel (Paul Kellet's economy filter)
+  private pinkState: number[][];
+
+  constructor(scenario: SimulatorScenario = SIMULATOR_SCENARIOS.calm) {
+    this.scenario = scenario;
+    this.phases = [0, 1, 2, 3].map(() =>
+      Array.from({ length: 5 }, () => Math.random() * 2 * Math.PI)
+    );
+    this.pinkState = [0, 1, 2, 3].map(() => [0, 0, 0]);
+  }
+
+  /**
+   * Override scenario parameters until cleared with an empty object
+   */
+  setParams(params: Partial<SimulatorParams>): void {
+    this.overrides = Object.keys(params).length === 0 ? {} : { ...this.overrides, ...params };
+  }
+
+  /**
+   * Fire an artifact immediately
+   */
+  trigger(event: SimulatorEvent): void {
+    this.artifacts.push({
+      event,
+      start: this.sampleIndex,
+      length: Math.round((ARTIFACT_DURATION_MS[event] * SAMPLE_RATE) / 1000),
+    });
+  }
+
+  /**
+   * Generate all samples due up to elapsedMs since the simulation started
+   */
+  advance(elapsedMs: number): {
+    firstSampleMs: number;
+    eeg: number[][];
+    accelerometer: { x: number; y: number; z: number }[];
+    ppg: number[]; // Infrared channel at PPG_SAMPLE_RATE
+  } {
+    const firstSampleMs = (this.sampleIndex * 1000) / SAMPLE_RATE;
+    const targetIndex = Math.floor((elapsedMs * SAMPLE_RATE) / 1000);
+    const count = Math.max(0, targetIndex - this.sampleIndex);
+
+    const scenarioTime = this.scenario.duration ? elapsedMs % this.scenario.duration : elapsedMs;
+    this.fireScenarioEvents(scenarioTime);
+    const params = this.getParams(scenarioTime);
+
+    // Random artifacts
+    const minutes = count / SAMPLE_RATE / 60;
+    if (Math.random() < params.blinkRate * minutes) this.trigger('blink');
+    if (Math.random() < params.jawClenchRate * minutes) this.trigger('jawClench');
+
+    const eeg: number[][] = [[], [], [], []];
+    for (let i = 0; i < count; i++) {
+      const n = this.sampleIndex + i;
+      const t = n / SAMPLE_RATE;
+      for (let ch = 0; ch < 4; ch++) {
+        eeg[ch].push(this.sample(ch, n, t, params));
+      }
+    }
+    this.sampleIndex += count;
+
+    const accelerometer: { x: number; y: number; z: number }[] = [];
+    const accTarget = Math.floor((elapsedMs * ACC_SAMPLE_RATE) / 1000);
+    for (; this.accIndex < accTarget; this.accIndex++) {
+      const n = Math.round((this.accIndex * SAMPLE_RATE) / ACC_SAMPLE_RATE);
+      const shake = params.motion * 0.2 + this.artifactEnvelope('motionBurst', n) * 0.6;
+      // Gravity on Z for an upright head
+      accelerometer.push({
+        x: (Math.random() - 0.5) * (0.01 + shake),
+        y: (Math.random() - 0.5) * (0.01 + shake),
+        z: 1 + (Math.random() - 0.5) * (0.01 + shake),
+      });
+    }
+
+    // Heart rate rises on the in-breath and falls on the out-breath, over a
+    // slow random drift (an Ornstein-Uhlenbeck process) that keeps it irregular
+    const ppg: number[] = [];
+    const ppgTarget = Math.floor((elapsedMs * PPG_SAMPLE_RATE) / 1000);
+    const driftDecay = 1 / (WANDER_TAU_S * PPG_SAMPLE_RATE);
+    for (; this.ppgIndex < ppgTarget; this.ppgIndex++) {
+      this.breathPhase += (2 * Math.PI * params.breathingRate) / 60 / PPG_SAMPLE_RATE;
+      // Uniform noise scaled to unit variance
+      const kick = (Math.random() - 0.5) * Math.sqrt(12);
+      this.heartRateDrift += -this.heartRateDrift * driftDecay + params.heartRateWander * Math.sqrt(2 * driftDecay) * kick;
+      const heartRate = params.heartRate + params.rsa * Math.sin(this.breathPhase) + this.heartRateDrift;
+      this.beatPhase += heartRate / 60 / PPG_SAMPLE_RATE;
+      ppg.push(PPG_BASELINE - PPG_PULSE * pulseShape(this.beatPhase % 1) + (Math.random() - 0.5) * 20);
+    }
+
+    this.artifacts = this.artifacts.filter((a) => a.start + a.length > this.sampleIndex);
+
+    return { firstSampleMs, eeg, accelerometer, ppg };
+  }
+
+  /**
+   * Resolve scenario parameters at a point in the scenario timeline
+   */
+  getParams(scenarioTime: number): SimulatorParams {
+    let current: SimulatorParams = { ...DEFAULT_SIMULATOR_PARAMS };
+
+    for (const step of this.scenario.steps) {
+      if (step.at > scenarioTime) break;
+      if (!step.params) continue;
+
+      const target: SimulatorParams = { ...current, ...step.params };
+      const progress = step.rampMs ? Math.min(1, (scenarioTime - step.at) / step.rampMs) : 1;
+
+      if (progress < 1) {
+        const lerp = (
+          key:
+            | 'alpha'
+            | 'beta'
+            | 'theta'
+            | 'background'
+            | 'motion'
+            | 'heartRate'
+            | 'breathingRate'
+            | 'rsa'
+            | 'heartRateWander'
+        ) => current[key] + (target[key] - current[key]) * progress;
+        target.alpha = lerp('alpha');
+        target.beta = lerp('beta');
+        target.theta = lerp('theta');
+        target.background = lerp('background');
+        target.motion = lerp('motion');
+        target.heartRate = lerp('heartRate');
+        target.breathingRate = lerp('breathingRate');
+        target.rsa = lerp('rsa');
+        target.heartRateWander = lerp('heartRateWander');
+      }
+      current = target;
+    }
+
+    return { ...current, ...this.overrides };
+  }
+
+  private fireScenarioEvents(scenarioTime: number): void {
+    const wrapped = scenarioTime < this.lastScenarioTime;
+    for (const step of this.scenario.steps) {
+      if (!step.events) continue;
+      const due = wrapped
+        ? step.at > this.lastScenarioTime || step.at <= scenarioTime
+        : step.at > this.lastScenarioTime && step.at <= scenarioTime;
+      if (due) {
+        step.events.forEach((event) => this.trigger(event));
+      }
+    }
+    this.lastScenarioTime = scenarioTime;
+  }
+
+  private sample(ch: number, n: number, t: number, params: SimulatorParams): number {
+    if (params.dropout[ch]) {
+      // Flat line with a trace of amplifier noise
+      return (Math.random() - 0.5) * 0.2;
+    }
+
+    const [alphaPhase, betaPhase, thetaPhase, modPhase, motionPhase] = this.phases[ch];
+    const twoPi = 2 * Math.PI;
+
+    // Alpha waxes and wanes in natural spindles
+    const alphaEnvelope = 0.75 + 0.25 * Math.sin(twoPi * 0.2 * t + modPhase);
+    let value =
+      ALPHA_GAIN[ch] * params.alpha * alphaEnvelope * Math.sin(twoPi * 10 * t + alphaPhase) +
+      params.beta * Math.sin(twoPi * 20 * t + betaPhase) +
+      params.theta * Math.sin(twoPi * 6 * t + thetaPhase) +
+      params.background * this.pinkNoise(ch);
+
+    // Slow sway from continuous motion
+    value += params.motion * 40 * Math.sin(twoPi * 0.8 * t + motionPhase);
+
+    const blink = this.artifactEnvelope('blink', n);
+    if (blink > 0) value += BLINK_GAIN[ch] * 150 * blink;
+
+    const jaw = this.artifactEnvelope('jawClench', n);
+    if (jaw > 0) value += JAW_GAIN[ch] * 60 * Math.sqrt(jaw) * (Math.random() * 2 - 1);
+
+    const motion = this.artifactEnvelope('motionBurst', n);
+    if (motion > 0) value += 120 * motion * Math.sin(twoPi * 1.5 * t + motionPhase);
+
+    return value;
+  }
+
+  /**
+   * Half-sine envelope (0-1) of the strongest active artifact of a type
+   */
+  private artifactEnvelope(event: SimulatorEvent, n: number): number {
+    let envelope = 0;
+    for (const artifact of this.artifacts) {
+      if (artifact.event !== event) continue;
+      const rel = (n - artifact.start) / artifact.length;
+      if (rel >= 0 && rel < 1) {
+        envelope = Math.max(envelope, Math.sin(Math.PI * rel));
+      }
+    }
+    return envelope;
+  }
+
+  private pinkNoise(ch: number): number {
+    const white = Math.random() * 2 - 1;
+    const b = this.pinkState[ch];
+    b[0] = 0.99765 * b[0] + white * 0.099046;
+    b[1] = 0.963 * b[1] + white * 0.2965164;
+    b[2] = 0.57 * b[2] + white * 1.0526913;
+    return (b[0] + b[1] + b[2] + white * 0.1848) * 0.3;
+  }
+}
+
+const BAND_NAMES = CORE_BAND_KEYS;
+
+// Muse OSC absolute band power is log10(µV²). The Bluetooth dB values are
+// summed Hann-windowed FFT power, which reads 10·log10(3/16 · N²) dB (~41 dB
+// at the default FFT_SIZE) above the same band power in µV²
+const OSC_ABSOLUTE_DB_OFFSET = 10 * Math.log10((3 / 16) * FFT_SIZE * FFT_SIZE);
+
+// Bluetooth reconnection: exponential backoff from 1 s, capped at 30 s
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const RECONNECT_MAX_ATTEMPTS = 10;
+
+function emptyBands(): BrainwaveBands {
+  return { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
+}
+
+/**
+ * Pick the five core bands out of a band table's values
+ */
+function coreBands(values: BandValues): BrainwaveBands {
+  const bands = emptyBands();
+  for (const band of BAND_NAMES) {
+    bands[band] = values[band] ?? 0;
+  }
+  return bands;
+}
+
+/**
+ * Exponentially smooth new values into a running set, starting new keys at 0
+ */
+function smoothInto(target: BandValues, values: BandValues, factor: number): void {
+  for (const [band, value] of Object.entries(values)) {
+    target[band] = (target[band] ?? 0) * factor + value * (1 - factor);
+  }
+}
+
+/**
+ * Absolute band power in dB from summed band power (reference 1 µV²),
+ * clamped to the same 0-150 dB range as the averaged values
+ */
+function toDb(powerSum: BandValues): BandValues {
+  const db: BandValues = {};
+  for (const [band, power] of Object.entries(powerSum)) {
+    db[band] = Math.max(0, Math.min(150, 10 * Math.log10(Math.max(power, 1e-12))));
+  }
+  return db;
+}
+
 export class MuseHandler {
   // Raw brainwave values (0-1 range)
   private _bands: BrainwaveBands = {
@@ -55,15 +472,34 @@ export class MuseHandler {
     gamma: 0,
   };
 
+  // Smoothed per-electrode values [TP9, AF7, AF8, TP10]
+  private _channelBands: BrainwaveBands[] = EEG_CHANNEL_NAMES.map(emptyBands);
+  private _channelBandsDb: BrainwaveBandsDb[] = EEG_CHANNEL_NAMES.map(emptyBands);
+
+  // Smoothed values for every band in the configured table (Bluetooth only -
+  // OSC streams the five standard bands)
+  private bandTable: BandDefinition[] = DEFAULT_BAND_TABLE;
+  private _configuredBands: BandValues = {};
+  private _configuredBandsDb: BandValues = {};
+  private _channelConfiguredBandsDb: BandValues[] = EEG_CHANNEL_NAMES.map(() => ({}));
+
+  // Latest Welch magnitude spectrum per electrode (empty until computed)
+  private _spectra: Float32Array[] = EEG_CHANNEL_NAMES.map(() => new Float32Array(0));
+
   // Auxiliary signals
   private _blink = 0;
   private _jawClench = 0;
   private _touching = false;
+  private _artifact = false; // A channel was left out of the last spectrum, or an artifact is ongoing
 
   // Accelerometer
   private _accX = 0;
   private _accY = 0;
   private _accZ = 0;
+  private motion = new MotionEstimator();
+
+  // Heart rate from the PPG sensor (Muse 2 / Muse S)
+  private ppg = new PPGProcessor();
 
   // Connection state
   private _connected = false;
@@ -88,6 +524,12 @@ export class MuseHandler {
   // Smoothing factor (lower = more responsive, higher = more stable)
   smoothingFactor = 0.7;
 
+  // Band power estimation (Bluetooth): Welch PSD over the last
+  // spectralWindow samples, recomputed every spectralHop samples
+  private welchOptions: WelchOptions = { ...DEFAULT_WELCH_OPTIONS };
+  spectralWindow = 2 * SAMPLE_RATE;
+  spectralHop = 64;
+
   // OSC connection
   private osc: OSC | null = null;
   private reconnectInterval: ReturnType<typeof setTimeout> | null = null;
@@ -97,16 +539,38 @@ export class MuseHandler {
   private eegSubscription: { unsubscribe: () => void } | null = null;
   private telemetrySubscription: { unsubscribe: () => void } | null = null;
   private accelerometerSubscription: { unsubscribe: () => void } | null = null;
+  private ppgSubscription: { unsubscribe: () => void } | null = null;
   private connectionStatusSubscription: { unsubscribe: () => void } | null = null;
+  private bluetoothDevice: BluetoothDevice | null = null; // Last paired headband, for reconnecting
+  private bluetoothReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
+  // Recorded session playback
+  private replayTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Simulated headband
+  private simulator: EEGSimulator | null = null;
+  private simulatorTimer: ReturnType<typeof setInterval> | null = null;
 
   // FFT processor
   private fft: FFTProcessor;
   private eegBuffers: number[][] = [[], [], [], []];
+  private eegMasks: boolean[][] = [[], [], [], []]; // Parallel to eegBuffers - true where contaminated
+  private samplesSinceUpdate = 0;
+
+  // Blink / jaw clench / EMG detection on the raw channels (Bluetooth, replay, simulator)
+  private artifacts = new ArtifactDetector();
+
+  // Notch + band-pass filters, kept running across packets
+  private filters = new EEGFilterBank(4, SAMPLE_RATE, DEFAULT_FILTER_SETTINGS);
   
   // Electrode signal quality tracking (for Bluetooth)
   private eegAmplitudes: number[] = [0, 0, 0, 0];
   private eegVariances: number[] = [0, 0, 0, 0];
 
+  // Raw data capture for the current session
+  private recorder = new EEGRecorder();
+
   // Event callbacks
   callbacks: MuseEventCallbacks = {};
 
@@ -123,7 +587,70 @@ export class MuseHandler {
   isInitialized = false;
 
   constructor() {
-    this.fft = new FFTProcessor(FFT_SIZE);
+    this.fft = new FFTProcessor(this.welchOptions.segmentLength);
+  }
+
+  /**
+   * Get the notch/band-pass settings applied to raw EEG
+   */
+  getFilterSettings(): FilterSettings {
+    return this.filters.getSettings();
+  }
+
+  /**
+   * Change the notch/band-pass settings (buffered data is discarded
+   * since it was filtered with the old settings)
+   */
+  setFilterSettings(settings: Partial<FilterSettings>): void {
+    this.filters.setSettings(settings);
+    this.eegBuffers = [[], [], [], []];
+    this.eegMasks = [[], [], [], []];
+    this.artifacts.reset();
+    this._artifact = false;
+    this.samplesSinceUpdate = 0;
+  }
+
+  /**
+   * Get the frequency band table used for Bluetooth band powers
+   */
+  getBandTable(): BandDefinition[] {
+    return this.bandTable.map((band) => ({ ...band }));
+  }
+
+  /**
+   * Change the frequency band table - the next analysis window computes
+   * every configured band
+   */
+  setBandTable(table: BandDefinition[]): void {
+    this.bandTable = normalizeBandTable(table);
+    this.resetConfiguredBands();
+  }
+
+  private resetConfiguredBands(): void {
+    this._configuredBands = {};
+    this._configuredBandsDb = {};
+    this._channelConfiguredBandsDb = EEG_CHANNEL_NAMES.map(() => ({}));
+  }
+
+  /**
+   * Get the Welch PSD settings used for Bluetooth band powers
+   */
+  getWelchOptions(): WelchOptions {
+    return { ...this.welchOptions };
+  }
+
+  /**
+   * Change the Welch PSD settings (segment length must be a power of 2)
+   */
+  setWelchOptions(options: Partial<WelchOptions>): void {
+    const next = { ...this.welchOptions, ...options };
+    if (next.segmentLength < 2 || (next.segmentLength & (next.segmentLength - 1)) !== 0) {
+      throw new Error(`Segment length must be a power of 2 (got ${next.segmentLength})`);
+    }
+    if (next.segmentLength !== this.welchOptions.segmentLength) {
+      this.fft = new FFTProcessor(next.segmentLength);
+    }
+    this.welchOptions = next;
   }
 
   /**
@@ -148,11 +675,25 @@ export class MuseHandler {
       return;
     }
 
-    try {
-      console.log('[Muse] Scanning for BLE devices...');
+    console.log('[Muse] Scanning for BLE devices...');
 
-      this.museClient = new MuseClient();
-      await this.museClient.connect();
+    // Pick the device here so its GATT connection can be reused if PPG isn't available
+    const device = await navigator.bluetooth.requestDevice({ filters: [{ services: [MUSE_SERVICE] }] });
+    this.cancelBluetoothReconnect();
+    await this.startBluetooth(device);
+    this.bluetoothDevice = device;
+  }
+
+  /**
+   * Open the GATT connection to a paired headband and start streaming
+   */
+  private async startBluetooth(device: BluetoothDevice): Promise<void> {
+    try {
+      if (!device.gatt) {
+        throw new Error('Selected device does not support GATT');
+      }
+      const gatt = await device.gatt.connect();
+      this.museClient = await this.connectMuseClient(gatt);
 
       this._deviceName = this.museClient.deviceName || 'Muse';
       console.log(`[Muse] Connected to ${this._deviceName} via Bluetooth`);
@@ -170,11 +711,17 @@ export class MuseHandler {
       if (this.museClient.accelerometerData) {
         this.accelerometerSubscription = this.museClient.accelerometerData.subscribe(
           (acc: { samples: { x: number; y: number; z: number }[] }) => {
-            const lastSample = acc.samples[acc.samples.length - 1];
-            if (lastSample) {
-              this._accX = lastSample.x;
-              this._accY = lastSample.y;
-              this._accZ = lastSample.z;
+            this.handleAccelerometer(acc.samples, Date.now());
+          }
+        );
+      }
+
+      // Subscribe to PPG (heart rate) - only the infrared channel is used
+      if (this.museClient.enablePpg && this.museClient.ppgReadings) {
+        this.ppgSubscription = this.museClient.ppgReadings.subscribe(
+          (reading: { ppgChannel: number; samples: number[] }) => {
+            if (reading.ppgChannel === PPG_CHANNEL) {
+              this.ppg.process(reading.samples);
             }
           }
         );
@@ -184,7 +731,7 @@ export class MuseHandler {
       if (this.museClient.telemetryData) {
         this.telemetrySubscription = this.museClient.telemetryData.subscribe(
           (telemetry: { batteryLevel: number; temperature: number }) => {
-            this._batteryLevel = Math.round(telemetry.batteryLevel);
+            this.handleTelemetry(telemetry.batteryLevel, telemetry.temperature, Date.now());
           }
         );
       }
@@ -195,6 +742,7 @@ export class MuseHandler {
       this._connectionQuality = 1;
       this.isInitialized = true;
       this._lastUpdate = Date.now();
+      this.reconnectAttempts = 0;
 
       this.callbacks.onConnect?.();
 
@@ -208,11 +756,31 @@ export class MuseHandler {
       );
     } catch (error) {
       console.error('[Muse] Bluetooth connection failed:', error);
+      // Don't leave a half-open link for the next attempt to pile onto
+      this.unsubscribeBluetooth();
       this.museClient = null;
+      device.gatt?.disconnect();
       throw error;
     }
   }
 
+  /**
+   * Drop every Bluetooth data subscription
+   */
+  private unsubscribeBluetooth(): void {
+    this.eegSubscription?.unsubscribe();
+    this.telemetrySubscription?.unsubscribe();
+    this.accelerometerSubscription?.unsubscribe();
+    this.ppgSubscription?.unsubscribe();
+    this.connectionStatusSubscription?.unsubscribe();
+
+    this.eegSubscription = null;
+    this.telemetrySubscription = null;
+    this.accelerometerSubscription = null;
+    this.ppgSubscription = null;
+    this.connectionStatusSubscription = null;
+  }
+
   /**
    * Handle incoming EEG data from Bluetooth
    */
@@ -226,25 +794,84 @@ export class MuseHandler {
     const channel = reading.electrode;
     if (channel < 0 || channel > 3) return;
 
-    // Add samples to buffer
-    for (const sample of reading.samples) {
-      this.eegBuffers[channel].push(sample);
+    this.recorder.pushEEG(channel, reading.samples, reading.timestamp);
+
+    // Add filtered samples to buffer
+    const filtered = this.filters.process(channel, reading.samples);
+    this.eegBuffers[channel].push(...filtered);
+
+    // Mark contaminated samples so the spectrum skips them
+    const artifact = this.artifacts.process(channel, filtered);
+    const mask = this.eegMasks[channel];
+    for (let i = Math.max(0, mask.length - artifact.lookback); i < mask.length; i++) {
+      mask[i] = true;
+    }
+    mask.push(...artifact.mask);
+
+    for (const event of artifact.events) {
+      if (event === 'blink') {
+        this._blink = 1;
+        this.callbacks.onBlink?.();
+      } else {
+        this._jawClench = 1;
+        this.callbacks.onJawClench?.();
+      }
+    }
+    if (!this.artifacts.active) {
+      this._blink = 0;
+      this._jawClench = 0;
     }
 
-    // Keep buffer at FFT size
-    while (this.eegBuffers[channel].length > FFT_SIZE) {
-      this.eegBuffers[channel].shift();
+    // Keep buffer at the analysis window length
+    const windowLength = Math.max(this.spectralWindow, this.welchOptions.segmentLength);
+    if (this.eegBuffers[channel].length > windowLength) {
+      this.eegBuffers[channel].splice(0, this.eegBuffers[channel].length - windowLength);
+      mask.splice(0, mask.length - windowLength);
     }
 
     // Update electrode quality from signal characteristics
     this.updateBluetoothElectrodeQuality(channel, reading.samples);
 
-    // Process when we have enough samples (only on channel 0)
-    if (channel === 0 && this.eegBuffers[0].length >= FFT_SIZE) {
-      this.processBluetoothFFT();
+    // Recompute band powers at a fixed hop rate (counted on channel 0)
+    if (channel === 0) {
+      this.samplesSinceUpdate += reading.samples.length;
+      if (
+        this.samplesSinceUpdate >= this.spectralHop &&
+        this.eegBuffers[0].length >= this.welchOptions.segmentLength
+      ) {
+        this.samplesSinceUpdate = 0;
+        this.processBluetoothFFT();
+      }
     }
   }
 
+  /**
+   * Handle accelerometer samples (Bluetooth or replay)
+   */
+  private handleAccelerometer(samples: { x: number; y: number; z: number }[], timestamp: number): void {
+    this.recorder.pushAccelerometer(samples, timestamp);
+
+    // Samples are evenly spaced ending at the packet timestamp
+    samples.forEach((sample, i) => {
+      this.motion.add(sample, timestamp - ((samples.length - 1 - i) * 1000) / ACC_SAMPLE_RATE);
+    });
+
+    const lastSample = samples[samples.length - 1];
+    if (lastSample) {
+      this._accX = lastSample.x;
+      this._accY = lastSample.y;
+      this._accZ = lastSample.z;
+    }
+  }
+
+  /**
+   * Handle telemetry readings (Bluetooth or replay)
+   */
+  private handleTelemetry(batteryLevel: number, temperature: number, timestamp: number): void {
+    this._batteryLevel = Math.round(batteryLevel);
+    this.recorder.pushTelemetry(batteryLevel, temperature, timestamp);
+  }
+
   /**
    * Derive electrode quality from EEG signal characteristics (for Bluetooth)
    */
@@ -299,98 +926,119 @@ export class MuseHandler {
   }
 
   /**
-   * Process EEG buffers with FFT to extract band powers
+   * Process EEG buffers with a Welch PSD to extract band powers
    */
   private processBluetoothFFT(): void {
-    const bandPowers = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
-    const bandPowersSum = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
+    const bandPowers: BandValues = {};
+    const bandPowersSum: BandValues = {};
+    const channelRelative: BrainwaveBands[] = [];
+    const channelDb: BrainwaveBandsDb[] = [];
     let validChannels = 0;
+    let rejectedChannels = 0;
 
-    for (let ch = 0; ch < 4; ch++) {
-      if (this.eegBuffers[ch].length < FFT_SIZE) continue;
+    for (const band of this.bandTable) {
+      bandPowers[band.key] = 0;
+      bandPowersSum[band.key] = 0;
+    }
 
-      const filtered = this.fft.highPassFilter(this.eegBuffers[ch], 1.0);
-      const magnitudes = this.fft.compute(filtered);
+    for (let ch = 0; ch < 4; ch++) {
+      if (this.eegBuffers[ch].length < this.welchOptions.segmentLength) continue;
 
-      // Average power (for relative calculation)
-      bandPowers.delta += this.fft.getBandPower(magnitudes, 1, 4);
-      bandPowers.theta += this.fft.getBandPower(magnitudes, 4, 8);
-      bandPowers.alpha += this.fft.getBandPower(magnitudes, 8, 13);
-      bandPowers.beta += this.fft.getBandPower(magnitudes, 13, 30);
-      bandPowers.gamma += this.fft.getBandPower(magnitudes, 30, 44);
+      const magnitudes = this.fft.welch(
+        this.eegBuffers[ch],
+        this.welchOptions.overlap,
+        this.welchOptions.averaging,
+        this.eegMasks[ch]
+      );
+      // Every segment overlaps an artifact - leave this channel out of the
+      // estimate, and don't offer its pre-artifact spectrum as current
+      if (magnitudes.length === 0) {
+        this._spectra[ch] = magnitudes;
+        rejectedChannels++;
+        continue;
+      }
+      this._spectra[ch] = magnitudes;
+
+      const power: BandValues = {};
+      const powerSum: BandValues = {};
+      for (const { key, low, high } of this.bandTable) {
+        // Average power (for relative calculation)
+        power[key] = this.fft.getBandPower(magnitudes, low, high);
+        // Sum power (for absolute dB calculation)
+        powerSum[key] = this.fft.getBandPowerSum(magnitudes, low, high);
+        bandPowers[key] += power[key];
+        bandPowersSum[key] += powerSum[key];
+      }
 
-      // Sum power (for absolute dB calculation)
-      bandPowersSum.delta += this.fft.getBandPowerSum(magnitudes, 1, 4);
-      bandPowersSum.theta += this.fft.getBandPowerSum(magnitudes, 4, 8);
-      bandPowersSum.alpha += this.fft.getBandPowerSum(magnitudes, 8, 13);
-      bandPowersSum.beta += this.fft.getBandPowerSum(magnitudes, 13, 30);
-      bandPowersSum.gamma += this.fft.getBandPowerSum(magnitudes, 30, 44);
+      const relative = toRelativePower(power, this.bandTable);
+      const db = toDb(powerSum);
+      if (relative) {
+        this.updateChannelBands(ch, coreBands(relative), coreBands(db));
+        smoothInto(this._channelConfiguredBandsDb[ch], db, this.smoothingFactor);
+        channelRelative.push(coreBands(relative));
+        channelDb.push(coreBands(db));
+      }
 
       validChannels++;
     }
 
+    this._artifact = rejectedChannels > 0 || this.artifacts.active;
     if (validChannels === 0) return;
 
+    if (channelRelative.length === EEG_CHANNEL_NAMES.length) {
+      this.recorder.pushBandPowers(channelRelative, channelDb, Date.now());
+    }
+
     // Average across channels
-    for (const band in bandPowers) {
-      bandPowers[band as keyof typeof bandPowers] /= validChannels;
-      bandPowersSum[band as keyof typeof bandPowersSum] /= validChannels;
-    }
-
-    // Calculate absolute dB values using sum power (not averaged)
-    // This matches Mind Monitor's convention which shows ~90-130 dB
-    // dB = 10 * log10(power_sum), reference is 1 µV²
-    const MIN_POWER = 1e-12;
-    const dbDelta = 10 * Math.log10(Math.max(bandPowersSum.delta, MIN_POWER));
-    const dbTheta = 10 * Math.log10(Math.max(bandPowersSum.theta, MIN_POWER));
-    const dbAlpha = 10 * Math.log10(Math.max(bandPowersSum.alpha, MIN_POWER));
-    const dbBeta = 10 * Math.log10(Math.max(bandPowersSum.beta, MIN_POWER));
-    const dbGamma = 10 * Math.log10(Math.max(bandPowersSum.gamma, MIN_POWER));
-    
-    this.updateBandDb('delta', dbDelta);
-    this.updateBandDb('theta', dbTheta);
-    this.updateBandDb('alpha', dbAlpha);
-    this.updateBandDb('beta', dbBeta);
-    this.updateBandDb('gamma', dbGamma);
+    for (const band of this.bandTable) {
+      bandPowers[band.key] /= validChannels;
+      bandPowersSum[band.key] /= validChannels;
+    }
 
-    // Apply 1/f correction for relative power calculation
-    bandPowers.theta *= 1.5;
-    bandPowers.alpha *= 2.0;
-    bandPowers.beta *= 3.0;
-    bandPowers.gamma *= 4.0;
+    // Absolute dB values use sum power (not averaged) to match Mind
+    // Monitor's convention, which shows ~90-130 dB
+    const db = toDb(bandPowersSum);
+    for (const band of BAND_NAMES) {
+      this.updateBandDb(band, db[band]);
+    }
+    smoothInto(this._configuredBandsDb, db, this.smoothingFactor);
 
-    // Convert to relative powers (0-1 range)
-    const totalPower =
-      bandPowers.delta +
-      bandPowers.theta +
-      bandPowers.alpha +
-      bandPowers.beta +
-      bandPowers.gamma;
+    const relative = toRelativePower(bandPowers, this.bandTable);
+    if (relative) {
+      smoothInto(this._configuredBands, relative, this.smoothingFactor);
+      for (const band of BAND_NAMES) {
+        this.updateBand(band, relative[band]);
+      }
+    }
+  }
 
-    if (totalPower > 0) {
-      this.updateBand('delta', bandPowers.delta / totalPower);
-      this.updateBand('theta', bandPowers.theta / totalPower);
-      this.updateBand('alpha', bandPowers.alpha / totalPower);
-      this.updateBand('beta', bandPowers.beta / totalPower);
-      this.updateBand('gamma', bandPowers.gamma / totalPower);
+  /**
+   * Connect a client with PPG enabled (Muse 2 / Muse S), falling back
+   * without it on the original Muse, which lacks the PPG characteristics
+   */
+  private async connectMuseClient(gatt: BluetoothRemoteGATTServer): Promise<MuseClient> {
+    const client = new MuseClient();
+    client.enablePpg = true;
+    try {
+      await client.connect(gatt);
+      return client;
+    } catch (err) {
+      if (!gatt.connected) throw err;
+      console.log('[Muse] No PPG sensor - connecting without heart rate');
+      const fallback = new MuseClient();
+      await fallback.connect(gatt);
+      return fallback;
     }
   }
 
   /**
-   * Handle Bluetooth disconnection
+   * Handle Bluetooth disconnection - the signal is lost rather than the
+   * session ended, so keep retrying the same headband
    */
   private handleBluetoothDisconnect(): void {
     console.log('[Muse] Bluetooth disconnected');
 
-    this.eegSubscription?.unsubscribe();
-    this.telemetrySubscription?.unsubscribe();
-    this.accelerometerSubscription?.unsubscribe();
-    this.connectionStatusSubscription?.unsubscribe();
-
-    this.eegSubscription = null;
-    this.telemetrySubscription = null;
-    this.accelerometerSubscription = null;
-    this.connectionStatusSubscription = null;
+    this.unsubscribeBluetooth();
     this.museClient = null;
 
     this._connected = false;
@@ -398,12 +1046,234 @@ export class MuseHandler {
     this._deviceName = null;
     this.isInitialized = false;
     this.eegBuffers = [[], [], [], []];
+    this.eegMasks = [[], [], [], []];
+    this.artifacts.reset();
+    this._artifact = false;
+    this.motion.reset();
+    this.ppg.reset();
+    this._spectra = EEG_CHANNEL_NAMES.map(() => new Float32Array(0));
+    this.resetConfiguredBands();
+    this.samplesSinceUpdate = 0;
+    this.filters.reset();
     this._electrodeQuality = [4, 4, 4, 4];
     this.eegAmplitudes = [0, 0, 0, 0];
     this.eegVariances = [0, 0, 0, 0];
     this._batteryLevel = -1;
 
-    this.callbacks.onDisconnect?.();
+    // Only a final disconnect is reported - while retrying, `reconnecting` is set
+    if (this.bluetoothDevice) {
+      this._deviceName = this.bluetoothDevice.name || 'Muse';
+      this.scheduleBluetoothReconnect();
+    } else {
+      this.callbacks.onDisconnect?.();
+    }
+  }
+
+  /**
+   * Retry the last paired headband after an exponential backoff, giving up
+   * after RECONNECT_MAX_ATTEMPTS
+   */
+  private scheduleBluetoothReconnect(): void {
+    const device = this.bluetoothDevice;
+    if (!device || this.bluetoothReconnectTimer) return;
+
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      console.log('[Muse] Giving up on reconnecting');
+      this.cancelBluetoothReconnect();
+      this._deviceName = null;
+      this.callbacks.onDisconnect?.();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.bluetoothReconnectTimer = setTimeout(() => {
+      this.bluetoothReconnectTimer = null;
+      if (this._connected || this.bluetoothDevice !== device) return;
+      console.log(`[Muse] Reconnecting to ${device.name || 'Muse'} (attempt ${this.reconnectAttempts})...`);
+      this.startBluetooth(device).then(
+        // Disconnected by the user while this attempt was under way
+        () => this.bluetoothDevice !== device && this.disconnect(),
+        () => this.scheduleBluetoothReconnect()
+      );
+    }, delay);
+  }
+
+  /**
+   * Stop retrying and forget the last paired headband
+   */
+  private cancelBluetoothReconnect(): void {
+    if (this.bluetoothReconnectTimer) {
+      clearTimeout(this.bluetoothReconnectTimer);
+      this.bluetoothReconnectTimer = null;
+    }
+    this.bluetoothDevice = null;
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * Play back a recorded session as a virtual headband
+   * Samples are fed through the same pipeline as live Bluetooth data,
+   * at real speed (1) or accelerated (> 1)
+   */
+  async connectReplay(
+    recording: RawRecording,
+    options: { speed?: number; loop?: boolean; name?: string } = {}
+  ): Promise<void> {
+    if (this._connected) {
+      console.log('[Muse] Already connected');
+      return;
+    }
+
+    const duration = Math.max(
+      0,
+      ...recording.eeg.map((ch) => ch.timestamps[ch.timestamps.length - 1] ?? 0)
+    );
+    if (duration === 0) {
+      throw new Error('Recording contains no EEG data');
+    }
+
+    const speed = Math.max(0.1, options.speed ?? 1);
+    const loop = options.loop ?? false;
+    const eegCursors = recording.eeg.map(() => 0);
+    let accCursor = 0;
+    let telemetryCursor = 0;
+    let playbackStart = Date.now();
+
+    this._deviceName = options.name ?? 'Recorded Session';
+    this._connected = true;
+    this._connectionMode = 'replay';
+    this._touching = true;
+    this._connectionQuality = 1;
+    this.isInitialized = true;
+    this._lastUpdate = Date.now();
+
+    console.log(`[Muse] Replaying ${(duration / 1000).toFixed(0)}s recording at ${speed}x`);
+    this.callbacks.onConnect?.();
+
+    // Convert a recording offset to the wall-clock time it is replayed at
+    const toWallClock = (offset: number) => playbackStart + offset / speed;
+
+    this.replayTimer = setInterval(() => {
+      const position = (Date.now() - playbackStart) * speed;
+
+      // EEG in blocks of up to 12 samples per channel, like the BLE packets
+      recording.eeg.forEach((channel, ch) => {
+        while (eegCursors[ch] < channel.samples.length && channel.timestamps[eegCursors[ch]] <= position) {
+          const start = eegCursors[ch];
+          let end = start;
+          while (end < channel.samples.length && end - start < 12 && channel.timestamps[end] <= position) {
+            end++;
+          }
+          eegCursors[ch] = end;
+          this.handleBluetoothEEG({
+            electrode: ch,
+            samples: channel.samples.slice(start, end),
+            timestamp: toWallClock(channel.timestamps[start]),
+          });
+        }
+      });
+
+      const acc = recording.accelerometer;
+      const accStart = accCursor;
+      while (accCursor < acc.timestamps.length && acc.timestamps[accCursor] <= position) {
+        accCursor++;
+      }
+      if (accCursor > accStart) {
+        const samples: { x: number; y: number; z: number }[] = [];
+        for (let i = accStart; i < accCursor; i++) {
+          samples.push({ x: acc.x[i], y: acc.y[i], z: acc.z[i] });
+        }
+        this.handleAccelerometer(samples, toWallClock(acc.timestamps[accCursor - 1]));
+      }
+
+      const telemetry = recording.telemetry;
+      while (telemetryCursor < telemetry.timestamps.length && telemetry.timestamps[telemetryCursor] <= position) {
+        this.handleTelemetry(
+          telemetry.batteryLevel[telemetryCursor],
+          telemetry.temperature[telemetryCursor],
+          toWallClock(telemetry.timestamps[telemetryCursor])
+        );
+        telemetryCursor++;
+      }
+
+      if (position >= duration) {
+        if (loop) {
+          eegCursors.fill(0);
+          accCursor = 0;
+          telemetryCursor = 0;
+          playbackStart = Date.now();
+        } else {
+          console.log('[Muse] Replay finished');
+          this.disconnect();
+          this.callbacks.onDisconnect?.();
+        }
+      }
+    }, 40);
+  }
+
+  /**
+   * Start a simulated headband that generates synthetic EEG from a scenario
+   */
+  async connectSimulator(scenario: SimulatorScenario = SIMULATOR_SCENARIOS.calm): Promise<void> {
+    if (this._connected) {
+      console.log('[Muse] Already connected');
+      return;
+    }
+
+    const simulator = new EEGSimulator(scenario);
+    const start = Date.now();
+    this.simulator = simulator;
+
+    this._deviceName = `Simulator: ${scenario.label}`;
+    this._connected = true;
+    this._connectionMode = 'simulator';
+    this._touching = true;
+    this._connectionQuality = 1;
+    this.isInitialized = true;
+    this._lastUpdate = start;
+
+    console.log(`[Muse] Simulating headband (${scenario.name})`);
+    this.callbacks.onConnect?.();
+    this.handleTelemetry(100, 30, start);
+
+    this.simulatorTimer = setInterval(() => {
+      const { firstSampleMs, eeg, accelerometer, ppg } = simulator.advance(Date.now() - start);
+
+      // Deliver in 12-sample blocks per channel, like the BLE packets
+      for (let offset = 0; offset < eeg[0].length; offset += 12) {
+        const timestamp = start + firstSampleMs + (offset * 1000) / SAMPLE_RATE;
+        for (let ch = 0; ch < 4; ch++) {
+          this.handleBluetoothEEG({
+            electrode: ch,
+            samples: eeg[ch].slice(offset, offset + 12),
+            timestamp,
+          });
+        }
+      }
+
+      if (accelerometer.length > 0) {
+        this.handleAccelerometer(accelerometer, Date.now());
+      }
+      if (ppg.length > 0) {
+        this.ppg.process(ppg);
+      }
+    }, 40);
+  }
+
+  /**
+   * Adjust the running simulator (e.g. alpha/beta/theta amplitudes)
+   * Pass an empty object to return to the scenario's own values
+   */
+  setSimulatorParams(params: Partial<SimulatorParams>): void {
+    this.simulator?.setParams(params);
+  }
+
+  /**
+   * Inject an artifact into the running simulator
+   */
+  triggerSimulatorEvent(event: SimulatorEvent): void {
+    this.simulator?.trigger(event);
   }
 
   /**
@@ -484,18 +1354,38 @@ export class MuseHandler {
       switch (address) {
         case '/muse/elements/delta_relative':
           this.updateBand('delta', this.parseValue(args));
+          this.updateChannelBandsFromOSC('delta', args);
           break;
         case '/muse/elements/theta_relative':
           this.updateBand('theta', this.parseValue(args));
+          this.updateChannelBandsFromOSC('theta', args);
           break;
         case '/muse/elements/alpha_relative':
           this.updateBand('alpha', this.parseValue(args));
+          this.updateChannelBandsFromOSC('alpha', args);
           break;
         case '/muse/elements/beta_relative':
           this.updateBand('beta', this.parseValue(args));
+          this.updateChannelBandsFromOSC('beta', args);
           break;
         case '/muse/elements/gamma_relative':
           this.updateBand('gamma', this.parseValue(args));
+          this.updateChannelBandsFromOSC('gamma', args);
+          break;
+        case '/muse/elements/delta_absolute':
+          this.updateChannelBandsDbFromOSC('delta', args);
+          break;
+        case '/muse/elements/theta_absolute':
+          this.updateChannelBandsDbFromOSC('theta', args);
+          break;
+        case '/muse/elements/alpha_absolute':
+          this.updateChannelBandsDbFromOSC('alpha', args);
+          break;
+        case '/muse/elements/beta_absolute':
+          this.updateChannelBandsDbFromOSC('beta', args);
+          break;
+        case '/muse/elements/gamma_absolute':
+          this.updateChannelBandsDbFromOSC('gamma', args);
           break;
         case '/muse/blink':
           this._blink = this.parseValue(args) > 0 ? 1 : 0;
@@ -505,11 +1395,28 @@ export class MuseHandler {
           this._jawClench = this.parseValue(args) > 0 ? 1 : 0;
           if (this._jawClench) this.callbacks.onJawClench?.();
           break;
+        case '/muse/eeg':
+          // Raw EEG: [TP9, AF7, AF8, TP10, (AUX)] one sample per message
+          if (Array.isArray(args) && args.length >= 4) {
+            const now = Date.now();
+            for (let ch = 0; ch < 4; ch++) {
+              this.recorder.pushEEG(ch, [args[ch]], now);
+            }
+          }
+          break;
+        case '/muse/ppg':
+          // [ambient, infrared, red] at 64 Hz
+          if (Array.isArray(args) && args.length > PPG_CHANNEL) {
+            this.ppg.process([args[PPG_CHANNEL]]);
+          }
+          break;
         case '/muse/acc':
           if (Array.isArray(args) && args.length >= 3) {
             this._accX = args[0];
             this._accY = args[1];
             this._accZ = args[2];
+            this.recorder.pushAccelerometer([{ x: args[0], y: args[1], z: args[2] }], Date.now());
+            this.motion.add({ x: args[0], y: args[1], z: args[2] }, Date.now());
           }
           break;
         case '/muse/elements/horseshoe':
@@ -565,6 +1472,48 @@ export class MuseHandler {
     this.emitDataUpdate();
   }
 
+  /**
+   * Smooth in one electrode's latest relative and dB band powers
+   */
+  private updateChannelBands(channel: number, relative: BrainwaveBands, db: BrainwaveBandsDb): void {
+    const bands = this._channelBands[channel];
+    const bandsDb = this._channelBandsDb[channel];
+    for (const band of BAND_NAMES) {
+      bands[band] = bands[band] * this.smoothingFactor + relative[band] * (1 - this.smoothingFactor);
+      bandsDb[band] = bandsDb[band] * this.smoothingFactor + db[band] * (1 - this.smoothingFactor);
+    }
+  }
+
+  /**
+   * Muse OSC band messages carry one value per electrode [TP9, AF7, AF8, TP10]
+   */
+  private updateChannelBandsFromOSC(band: keyof BrainwaveBands, args: number | number[]): void {
+    if (!Array.isArray(args) || args.length < EEG_CHANNEL_NAMES.length) return;
+    for (let ch = 0; ch < EEG_CHANNEL_NAMES.length; ch++) {
+      const value = args[ch];
+      if (typeof value !== 'number' || !isFinite(value)) continue;
+      const bands = this._channelBands[ch];
+      bands[band] =
+        bands[band] * this.smoothingFactor + Math.max(0, Math.min(1, value)) * (1 - this.smoothingFactor);
+    }
+  }
+
+  /**
+   * Muse OSC absolute band power, log10(µV²) per electrode [TP9, AF7, AF8,
+   * TP10], moved onto the Bluetooth dB scale. Left unclamped: low-amplitude
+   * bands go below 0 Bels and the asymmetry still needs their difference
+   */
+  private updateChannelBandsDbFromOSC(band: keyof BrainwaveBandsDb, args: number | number[]): void {
+    if (!Array.isArray(args) || args.length < EEG_CHANNEL_NAMES.length) return;
+    for (let ch = 0; ch < EEG_CHANNEL_NAMES.length; ch++) {
+      const value = args[ch];
+      if (typeof value !== 'number' || !isFinite(value)) continue;
+      const bandsDb = this._channelBandsDb[ch];
+      bandsDb[band] =
+        bandsDb[band] * this.smoothingFactor + (10 * value + OSC_ABSOLUTE_DB_OFFSET) * (1 - this.smoothingFactor);
+    }
+  }
+
   /**
    * Update a brainwave band dB value with smoothing
    */
@@ -613,15 +1562,26 @@ export class MuseHandler {
    */
   disconnect(): void {
     // Disconnect Bluetooth
+    this.cancelBluetoothReconnect();
     if (this.museClient) {
-      this.eegSubscription?.unsubscribe();
-      this.telemetrySubscription?.unsubscribe();
-      this.accelerometerSubscription?.unsubscribe();
-      this.connectionStatusSubscription?.unsubscribe();
+      this.unsubscribeBluetooth();
       this.museClient.disconnect();
       this.museClient = null;
     }
 
+    // Stop replay
+    if (this.replayTimer) {
+      clearInterval(this.replayTimer);
+      this.replayTimer = null;
+    }
+
+    // Stop simulator
+    if (this.simulatorTimer) {
+      clearInterval(this.simulatorTimer);
+      this.simulatorTimer = null;
+    }
+    this.simulator = null;
+
     // Disconnect OSC
     if (this.reconnectInterval) {
       clearTimeout(this.reconnectInterval);
@@ -638,12 +1598,35 @@ export class MuseHandler {
     this._deviceName = null;
     this.isInitialized = false;
     this.eegBuffers = [[], [], [], []];
+    this.eegMasks = [[], [], [], []];
+    this.artifacts.reset();
+    this._artifact = false;
+    this.motion.reset();
+    this.ppg.reset();
+    this._spectra = EEG_CHANNEL_NAMES.map(() => new Float32Array(0));
+    this.resetConfiguredBands();
+    this.samplesSinceUpdate = 0;
+    this.filters.reset();
     this._electrodeQuality = [4, 4, 4, 4];
     this.eegAmplitudes = [0, 0, 0, 0];
     this.eegVariances = [0, 0, 0, 0];
     this._batteryLevel = -1;
   }
 
+  /**
+   * Start capturing raw EEG, accelerometer and telemetry data
+   */
+  startRecording(): void {
+    this.recorder.start();
+  }
+
+  /**
+   * Stop capturing and return the recorded data (null if not recording)
+   */
+  stopRecording(): RawRecording | null {
+    return this.recorder.stop();
+  }
+
   /**
    * Get current brain state
    */
@@ -679,6 +1662,7 @@ export class MuseHandler {
       connected: this._connected && this.isReceivingData(),
       connectionMode: this._connectionMode,
       deviceName: this._deviceName,
+      reconnecting: this.reconnecting,
       touching: this._touching,
       connectionQuality: this._connectionQuality,
       batteryLevel: this._batteryLevel,
@@ -686,12 +1670,35 @@ export class MuseHandler {
       bandsSmooth: { ...this._bandsSmooth },
       bandsDb: { ...this._bandsDb },
       bandsDbSmooth: { ...this._bandsDbSmooth },
+      channelBands: this._channelBands.map((bands) => ({ ...bands })),
+      channelBandsDb: this._channelBandsDb.map((bands) => ({ ...bands })),
+      configuredBands: this.configuredValues(this._bandsSmooth, this._configuredBands),
+      configuredBandsDb: this.configuredValues(this._bandsDbSmooth, this._configuredBandsDb),
+      channelConfiguredBandsDb: this._channelBandsDb.map((bands, ch) =>
+        this.configuredValues(bands, this._channelConfiguredBandsDb[ch])
+      ),
+      artifact: this._artifact,
+      motion: this.motion.level,
+      posture: this.motion.posture,
+      heart: this.ppg.metrics,
       relaxationIndex: this._relaxationIndex,
       meditationIndex: this._meditationIndex,
       focusIndex: this._focusIndex,
     };
   }
 
+  /**
+   * Values for every band in the table - core bands from the standard
+   * pipeline (so OSC works too), extras from the configured set
+   */
+  private configuredValues(core: BrainwaveBands, configured: BandValues): BandValues {
+    const values: BandValues = {};
+    for (const band of this.bandTable) {
+      values[band.key] = isCoreBand(band.key) ? core[band.key] : (configured[band.key] ?? 0);
+    }
+    return values;
+  }
+
   /**
    * Get history for visualization
    */
@@ -708,10 +1715,22 @@ export class MuseHandler {
     return [...this._electrodeQuality];
   }
 
+  /**
+   * Get the latest Welch magnitude spectrum per electrode [TP9, AF7, AF8, TP10]
+   * Bins are spectrumBinWidth() Hz apart; empty when band powers come
+   * from OSC or no window has been analysed yet
+   */
+  getSpectra(): Float32Array[] {
+    return this._spectra.map((spectrum) => spectrum.slice());
+  }
+
   // Getters
   get connected(): boolean {
     return this._connected && this.isReceivingData();
   }
+  get reconnecting(): boolean {
+    return this.bluetoothDevice !== null && !this._connected;
+  }
   get connectionMode(): ConnectionMode {
     return this._connectionMode;
   }
@@ -730,6 +1749,12 @@ export class MuseHandler {
   get bandsDbSmooth(): BrainwaveBandsDb {
     return { ...this._bandsDbSmooth };
   }
+  get channelBands(): BrainwaveBands[] {
+    return this._channelBands.map((bands) => ({ ...bands }));
+  }
+  get channelBandsDb(): BrainwaveBandsDb[] {
+    return this._channelBandsDb.map((bands) => ({ ...bands }));
+  }
   get touching(): boolean {
     return this._touching;
   }
@@ -757,6 +1782,9 @@ export class MuseHandler {
   get batteryLevel(): number {
     return this._batteryLevel;
   }
+  get isRecording(): boolean {
+    return this.recorder.isRecording;
+  }
 }
 
 // Singleton instance
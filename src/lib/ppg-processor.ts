@@ -0,0 +1,257 @@
+// PPG Processor
+// Finds heartbeats in the Muse 2 / Muse S photoplethysmogram and derives
+// heart rate and heart rate variability (RMSSD, HF power and cardiac
+// coherence) from the beat-to-beat intervals
+
+import { Biquad } from './eeg-filter';
+import { FFTProcessor } from './fft-processor';
+import type { HeartMetrics } from '../types';
+
+export const PPG_SAMPLE_RATE = 64; // Hz
+export const PPG_CHANNEL = 1; // Infrared - [ambient, infrared, red]
+
+export interface Beat {
+  time: number; // ms on the PPG sample clock
+  ibi: number; // ms since the previous beat
+  adjacent: boolean; // The previous interval was accepted too (so their difference is valid)
+}
+
+const MIN_IBI_MS = 333; // 180 bpm
+const MAX_IBI_MS = 1500; // 40 bpm
+const MAX_IBI_DEVIATION = 0.3; // Reject intervals this far from the recent median (missed or extra beats)
+const MAX_REJECTED_IN_ROW = 4; // Then the rhythm itself has changed - start over
+const ENVELOPE_HALF_LIFE_MS = 2000; // Pulse amplitude tracker decay
+const PEAK_THRESHOLD = 0.4; // Share of the pulse amplitude a peak must reach
+const HEART_RATE_WINDOW_MS = 10000;
+const RMSSD_WINDOW_MS = 60000;
+const MIN_RMSSD_DIFFS = 10;
+const STALE_MS = 5000; // No heart rate without a beat this recently
+const BEAT_HISTORY_MS = 120000;
+
+// HRV spectrum: the interval series resampled at 4 Hz over 64 s
+export const TACHOGRAM_RATE = 4; // Hz
+const TACHOGRAM_LENGTH = 256;
+const HF_BAND: [number, number] = [0.15, 0.4]; // Hz, respiratory sinus arrhythmia at normal breathing rates
+const COHERENCE_BAND: [number, number] = [0.04, 0.26]; // Hz, where a coherent rhythm peaks (about 2.5-15 breaths/min)
+const COHERENCE_PEAK_BINS = 1; // Either side of the peak - the Hann window spreads a steady rhythm over three
+const TOTAL_BAND: [number, number] = [0.0033, 0.4]; // Hz, total HRV power
+
+export class PPGProcessor {
+  private highPass = Biquad.highPass(0.5, PPG_SAMPLE_RATE);
+  private lowPass = Biquad.lowPass(4, PPG_SAMPLE_RATE);
+  private primed = false;
+  private sampleIndex = 0;
+  private window: number[] = []; // Last three filtered samples
+  private envelope = 0;
+  private lastPeakTime: number | null = null;
+  private rejectedInRow = 0;
+  private beats: Beat[] = [];
+  private latest: HeartMetrics | null = null; // As of the last beat
+  private fft = new FFTProcessor(TACHOGRAM_LENGTH);
+
+  /**
+   * Add raw samples from the infrared channel
+   * Returns true if a beat was detected
+   */
+  process(samples: number[]): boolean {
+    const decay = Math.pow(0.5, 1000 / PPG_SAMPLE_RATE / ENVELOPE_HALF_LIFE_MS);
+    let beat = false;
+
+    for (const raw of samples) {
+      if (!this.primed) {
+        this.highPass.prime(raw);
+        this.lowPass.prime(this.highPass.process(raw));
+        this.primed = true;
+      }
+      // Blood volume rises as the reflected light falls, so the pulse peaks are inverted
+      const value = -this.lowPass.process(this.highPass.process(raw));
+      this.envelope = Math.max(Math.abs(value), this.envelope * decay);
+
+      this.window.push(value);
+      if (this.window.length > 3) this.window.shift();
+      this.sampleIndex++;
+
+      // The middle sample is a local maximum over the pulse threshold
+      const [before, peak, after] = this.window;
+      if (this.window.length === 3 && peak > before && peak >= after && peak > PEAK_THRESHOLD * this.envelope) {
+        // Parabolic interpolation places the peak between samples (64 Hz is coarse for HRV)
+        const offset = (0.5 * (before - after)) / (before - 2 * peak + after);
+        const time = ((this.sampleIndex - 2 + offset) * 1000) / PPG_SAMPLE_RATE;
+        if (this.lastPeakTime === null || time - this.lastPeakTime >= MIN_IBI_MS) {
+          beat = this.addPeak(time) || beat;
+        }
+      }
+    }
+
+    return beat;
+  }
+
+  /**
+   * Heart rate and HRV from the recent beats (null without a recent beat)
+   */
+  get metrics(): HeartMetrics | null {
+    const now = (this.sampleIndex * 1000) / PPG_SAMPLE_RATE;
+    const last = this.beats[this.beats.length - 1];
+    return last && now - last.time <= STALE_MS ? this.latest : null;
+  }
+
+  /**
+   * Accepted beats from the last two minutes
+   */
+  getBeats(): Beat[] {
+    return [...this.beats];
+  }
+
+  /**
+   * Beat-to-beat intervals (ms) resampled evenly at TACHOGRAM_RATE over the
+   * last 64 s, or null until that much has been recorded
+   */
+  tachogram(): number[] | null {
+    const beats = this.beats;
+    if (beats.length < 2) return null;
+
+    const end = beats[beats.length - 1].time;
+    const start = end - ((TACHOGRAM_LENGTH - 1) * 1000) / TACHOGRAM_RATE;
+    if (beats[0].time > start) return null;
+
+    const series: number[] = [];
+    let i = 0;
+    for (let n = 0; n < TACHOGRAM_LENGTH; n++) {
+      const t = start + (n * 1000) / TACHOGRAM_RATE;
+      while (i < beats.length - 2 && beats[i + 1].time < t) i++;
+      const a = beats[i];
+      const b = beats[i + 1];
+      const frac = Math.max(0, Math.min(1, (t - a.time) / (b.time - a.time)));
+      series.push(a.ibi + (b.ibi - a.ibi) * frac);
+    }
+    return series;
+  }
+
+  /**
+   * One-sided power spectral density of the tachogram (ms²/Hz), one bin per
+   * TACHOGRAM_RATE / 256 Hz, or null until 64 s of beats have been recorded
+   */
+  hrvSpectrum(): Float32Array | null {
+    const series = this.tachogram();
+    if (!series) return null;
+
+    const mean = series.reduce((sum, v) => sum + v, 0) / series.length;
+    const magnitudes = this.fft.compute(series.map((v) => v - mean));
+
+    // Hann window power is 3/8 of a rectangular one
+    const scale = 2 / (TACHOGRAM_RATE * TACHOGRAM_LENGTH * 0.375);
+    return magnitudes.map((m) => m * m * scale);
+  }
+
+  reset(): void {
+    this.highPass = Biquad.highPass(0.5, PPG_SAMPLE_RATE);
+    this.lowPass = Biquad.lowPass(4, PPG_SAMPLE_RATE);
+    this.primed = false;
+    this.sampleIndex = 0;
+    this.window = [];
+    this.envelope = 0;
+    this.lastPeakTime = null;
+    this.rejectedInRow = 0;
+    this.beats = [];
+    this.latest = null;
+  }
+
+  /**
+   * Accept the interval ending at this peak if it is plausible
+   */
+  private addPeak(time: number): boolean {
+    const previous = this.lastPeakTime;
+    this.lastPeakTime = time;
+    if (previous === null) return false;
+
+    const ibi = time - previous;
+    const recent = this.beats.slice(-5).map((b) => b.ibi);
+    const median = recent.length >= 3 ? [...recent].sort((a, b) => a - b)[recent.length >> 1] : null;
+    const plausible =
+      ibi >= MIN_IBI_MS &&
+      ibi <= MAX_IBI_MS &&
+      (median === null || Math.abs(ibi - median) <= MAX_IBI_DEVIATION * median);
+
+    if (!plausible) {
+      this.rejectedInRow++;
+      if (this.rejectedInRow >= MAX_REJECTED_IN_ROW) {
+        this.beats = [];
+        this.rejectedInRow = 0;
+      }
+      return false;
+    }
+
+    const last = this.beats[this.beats.length - 1];
+    const adjacent = !!last && this.rejectedInRow === 0 && Math.abs(time - ibi - last.time) < 1;
+    this.rejectedInRow = 0;
+    this.beats.push({ time, ibi, adjacent });
+    while (this.beats.length > 0 && time - this.beats[0].time > BEAT_HISTORY_MS) {
+      this.beats.shift();
+    }
+    this.latest = this.computeMetrics(time);
+    return true;
+  }
+
+  private computeMetrics(now: number): HeartMetrics | null {
+    const recent = this.beats.filter((b) => now - b.time <= HEART_RATE_WINDOW_MS);
+    if (recent.length < 3) return null;
+    const meanIbi = recent.reduce((sum, b) => sum + b.ibi, 0) / recent.length;
+    const psd = this.hrvSpectrum();
+
+    return {
+      heartRate: 60000 / meanIbi,
+      ibi: recent[recent.length - 1].ibi,
+      rmssd: this.rmssd(now),
+      hfPower: psd && bandPower(psd, HF_BAND),
+      coherence: psd && cardiacCoherence(psd),
+    };
+  }
+
+  /**
+   * Root mean square of successive interval differences over the last minute
+   */
+  private rmssd(now: number): number | null {
+    let sumSquares = 0;
+    let count = 0;
+    for (let i = 1; i < this.beats.length; i++) {
+      const beat = this.beats[i];
+      if (!beat.adjacent || now - beat.time > RMSSD_WINDOW_MS) continue;
+      const diff = beat.ibi - this.beats[i - 1].ibi;
+      sumSquares += diff * diff;
+      count++;
+    }
+    return count >= MIN_RMSSD_DIFFS ? Math.sqrt(sumSquares / count) : null;
+  }
+}
+
+/**
+ * Power of an HRV spectrum between two frequencies (ms²)
+ */
+function bandPower(psd: Float32Array, [low, high]: [number, number]): number {
+  const binWidth = TACHOGRAM_RATE / TACHOGRAM_LENGTH;
+  let power = 0;
+  for (let i = Math.ceil(low / binWidth); i <= Math.floor(high / binWidth); i++) {
+    power += psd[i] * binWidth;
+  }
+  return power;
+}
+
+/**
+ * Cardiac coherence (HeartMath style): power around the highest peak in the
+ * 0.04-0.26 Hz band as a share of total HRV power. Slow, even breathing
+ * concentrates the rhythm into one peak and pushes this toward 1
+ */
+export function cardiacCoherence(psd: Float32Array): number {
+  const binWidth = TACHOGRAM_RATE / TACHOGRAM_LENGTH;
+  let peakBin = Math.ceil(COHERENCE_BAND[0] / binWidth);
+  for (let i = peakBin + 1; i <= Math.floor(COHERENCE_BAND[1] / binWidth); i++) {
+    if (psd[i] > psd[peakBin]) peakBin = i;
+  }
+
+  let peak = 0;
+  for (let i = peakBin - COHERENCE_PEAK_BINS; i <= peakBin + COHERENCE_PEAK_BINS; i++) {
+    peak += psd[i] * binWidth;
+  }
+  const total = bandPower(psd, TOTAL_BAND);
+  return total > 0 ? Math.min(1, peak / total) : 0;
+}
@@ -0,0 +1,104 @@
+// Alpha/Theta Protocol
+// Eyes-closed deep relaxation: follows the theta/alpha ratio and marks a
+// crossover when theta rises above alpha. Alpha and theta each have their
+// own reward tone; the crossover (deep) state drives the main reward
+
+import { DWELL_CONTROLS, EXIT_DEFAULTS, SUSTAIN_CONTROL, formatPercent, numberSetting } from './protocol';
+import type { Protocol, ProtocolEvaluator } from './protocol';
+import type { ProtocolSettings } from '../../types';
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  alphaThreshold: 0.3, // Alpha tone while relative alpha is at least this
+  thetaThreshold: 0.25, // Theta tone while relative theta is at least this
+  sustainedMs: 3000,
+  ...EXIT_DEFAULTS, // The crossover has its own hysteresis, so only the dwell rules apply
+};
+
+const CROSSOVER_ON = 1.0; // theta/alpha ratio that starts a crossover
+const CROSSOVER_OFF = 0.9; // ...and the ratio it must fall below to end
+const CUE_RELEASE = 0.9; // Tones re-arm once a band falls below 90% of its threshold
+
+const MIN_SIGNAL_POWER = 0.05;
+const MAX_HORSESHOE = 2;
+
+// Graph score per unit of theta/alpha - a crossover sits on the 0.7 line
+const THRESHOLD_SCORE = 0.7;
+
+function createEvaluator(): ProtocolEvaluator {
+  const cues = { alpha: false, theta: false, crossover: false };
+
+  return ({ bands, horseshoe }, _now, settings) => {
+    const alphaThreshold = numberSetting(settings, DEFAULT_SETTINGS, 'alphaThreshold');
+    const thetaThreshold = numberSetting(settings, DEFAULT_SETTINGS, 'thetaThreshold');
+
+    const { alpha, theta } = bands;
+    const totalPower = bands.delta + theta + alpha + bands.beta + bands.gamma;
+    const signalValid =
+      totalPower >= MIN_SIGNAL_POWER &&
+      alpha > 0.01 &&
+      horseshoe.filter((v) => v <= MAX_HORSESHOE).length >= 3;
+
+    const thetaAlphaRatio = alpha > 0.01 ? theta / alpha : 0;
+
+    if (signalValid) {
+      // Hysteresis keeps the tones from chattering around a threshold
+      cues.alpha = alpha >= alphaThreshold || (cues.alpha && alpha >= alphaThreshold * CUE_RELEASE);
+      cues.theta = theta >= thetaThreshold || (cues.theta && theta >= thetaThreshold * CUE_RELEASE);
+      cues.crossover = thetaAlphaRatio >= CROSSOVER_ON || (cues.crossover && thetaAlphaRatio >= CROSSOVER_OFF);
+    } else {
+      cues.alpha = cues.theta = cues.crossover = false;
+    }
+
+    return {
+      signalValid,
+      rewardMet: cues.crossover,
+      score: signalValid ? Math.min(1, thetaAlphaRatio * THRESHOLD_SCORE) : 0.15,
+      metrics: { thetaAlphaRatio, alpha, theta },
+      cues: { ...cues },
+    };
+  };
+}
+
+export const ALPHA_THETA: Protocol = {
+  name: 'alpha_theta',
+  label: 'Alpha/Theta Deep State',
+  description: 'Eyes-closed deep relaxation - follows theta/alpha and rewards the crossover into theta',
+  inputs: ['bands', 'horseshoe'],
+  targetLabel: 'Crossover',
+  zoneText: {
+    flow: { label: 'Crossover', description: 'Theta Above Alpha' },
+    stabilizing: { label: 'Descending', description: 'Theta Rising' },
+    noise: { label: 'Alpha Dominant', description: 'Let Go' },
+  },
+  cues: [
+    { key: 'alpha', label: 'Alpha', sound: 'alpha' },
+    { key: 'theta', label: 'Theta', sound: 'theta' },
+    { key: 'crossover', label: 'Crossover', sound: 'crossover', event: 'crossover' },
+  ],
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'alphaThreshold',
+      label: 'Alpha Reward Threshold',
+      type: 'range',
+      min: 0.05,
+      max: 0.8,
+      step: 0.05,
+      format: formatPercent,
+      hint: 'Relative alpha power that sounds the alpha tone',
+    },
+    {
+      key: 'thetaThreshold',
+      label: 'Theta Reward Threshold',
+      type: 'range',
+      min: 0.05,
+      max: 0.8,
+      step: 0.05,
+      format: formatPercent,
+      hint: 'Relative theta power that sounds the theta tone',
+    },
+    SUSTAIN_CONTROL,
+    ...DWELL_CONTROLS,
+  ],
+  createEvaluator,
+};
@@ -0,0 +1,96 @@
+// Cardiac Coherence Protocol
+// HeartMath-style heart rhythm coherence from the PPG beat intervals: the
+// share of HRV power in the dominant 0.04-0.26 Hz peak. Slow, even breathing
+// at the pacer's rate lines the heart rhythm up into that single peak
+
+import {
+  AUTO_THRESHOLD_CONTROLS,
+  AUTO_THRESHOLD_DEFAULTS,
+  DWELL_CONTROLS,
+  EXIT_DEFAULTS,
+  HYSTERESIS_CONTROL,
+  SUSTAIN_CONTROL,
+  formatPercent,
+  numberSetting,
+} from './protocol';
+import type { Protocol, ProtocolEvaluator } from './protocol';
+import type { ProtocolSettings } from '../../types';
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  threshold: 0.6, // Coherence (peak share of HRV power) to reward
+  breathingRate: 6, // Pacer breaths per minute - near most adults' resonance frequency
+  sustainedMs: 5000,
+  ...EXIT_DEFAULTS,
+  ...AUTO_THRESHOLD_DEFAULTS,
+};
+
+// Graph score per unit of coherence - the threshold sits on the 0.7 line
+const THRESHOLD_SCORE = 0.7;
+
+function createEvaluator(): ProtocolEvaluator {
+  return ({ heart }, _now, settings) => {
+    const threshold = numberSetting(settings, DEFAULT_SETTINGS, 'threshold');
+
+    // Needs a current heart rate and a full 64 s of beat intervals
+    const coherence = heart?.coherence ?? null;
+    const signalValid = coherence !== null;
+
+    return {
+      signalValid,
+      rewardMet: signalValid && coherence >= threshold,
+      score: signalValid ? Math.min(1, (coherence / threshold) * THRESHOLD_SCORE) : 0.15,
+      metrics: { coherence: coherence ?? 0, heartRate: heart?.heartRate ?? 0 },
+      gate: !heart
+        ? 'No heartbeat detected'
+        : coherence === null
+          ? 'Collecting 64 s of heartbeats'
+          : coherence < threshold
+            ? 'Coherence below threshold'
+            : null,
+    };
+  };
+}
+
+export const CARDIAC_COHERENCE: Protocol = {
+  name: 'cardiac_coherence',
+  label: 'Cardiac Coherence',
+  description:
+    'Paced breathing into a smooth, sine-like heart rhythm - needs a Muse 2 or Muse S heart sensor, and scores after the first minute',
+  inputs: ['heart'],
+  targetLabel: 'Coherence',
+  zoneText: {
+    flow: { label: 'High Coherence', description: 'Heart Rhythm Coherent' },
+    stabilizing: { label: 'Medium Coherence', description: 'Rhythm Settling' },
+    noise: { label: 'Low Coherence', description: 'Follow the Pacer' },
+  },
+  pacedBreathing: 'breathingRate',
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'threshold',
+      label: 'Coherence Threshold',
+      type: 'range',
+      min: 0.2,
+      max: 0.95,
+      step: 0.05,
+      format: formatPercent,
+      hint: 'Share of heart rate variability power in the dominant 0.04-0.26 Hz peak',
+    },
+    {
+      key: 'breathingRate',
+      label: 'Breathing Pacer',
+      type: 'range',
+      min: 4,
+      max: 10,
+      step: 0.5,
+      format: (value) => `${value}/min`,
+      hint: 'Breaths per minute - around 6 brings most people to resonance',
+    },
+    SUSTAIN_CONTROL,
+    HYSTERESIS_CONTROL,
+    ...DWELL_CONTROLS,
+    ...AUTO_THRESHOLD_CONTROLS,
+  ],
+  rewardThreshold: { key: 'threshold', stricter: () => 1 },
+  createEvaluator,
+};
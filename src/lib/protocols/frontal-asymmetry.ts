@@ -0,0 +1,124 @@
+// Frontal Alpha Asymmetry Protocol
+// FAA = ln(AF8 alpha) - ln(AF7 alpha). Alpha is inversely related to cortical
+// activity, so a positive score means relatively greater left frontal activity
+
+import {
+  AUTO_THRESHOLD_CONTROLS,
+  AUTO_THRESHOLD_DEFAULTS,
+  DWELL_CONTROLS,
+  EXIT_DEFAULTS,
+  HYSTERESIS_CONTROL,
+  SUSTAIN_CONTROL,
+  numberSetting,
+} from './protocol';
+import type { Protocol, ProtocolEvaluator } from './protocol';
+import type { ProtocolSettings } from '../../types';
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  direction: 'increase', // Reward FAA above (increase) or below (decrease) the threshold
+  threshold: 0, // FAA target in ln units
+  sustainedMs: 3000,
+  ...EXIT_DEFAULTS,
+  ...AUTO_THRESHOLD_DEFAULTS,
+};
+
+const SMOOTHING_MS = 1000; // Time constant of the FAA moving average
+const MAX_HORSESHOE = 2; // AF7/AF8 contact must be medium or better
+
+// Electrode indices in [TP9, AF7, AF8, TP10]
+const AF7 = 1;
+const AF8 = 2;
+
+// Graph score per ln unit past the threshold - threshold sits at the 0.7 zone line
+const SCORE_SCALE = 0.6;
+const THRESHOLD_SCORE = 0.7;
+
+/**
+ * Frontal alpha asymmetry from absolute alpha power in dB
+ * ln(P) = dB * ln(10) / 10, so the ratio reduces to a dB difference
+ */
+export function calculateAsymmetry(af7AlphaDb: number, af8AlphaDb: number): number {
+  return ((af8AlphaDb - af7AlphaDb) * Math.LN10) / 10;
+}
+
+function directionSign(settings: ProtocolSettings): 1 | -1 {
+  return settings.direction === 'decrease' ? -1 : 1;
+}
+
+function createEvaluator(): ProtocolEvaluator {
+  let smoothed: number | null = null;
+  let lastUpdate: number | null = null;
+
+  return ({ channelBandsDb, horseshoe }, now, settings) => {
+    const threshold = numberSetting(settings, DEFAULT_SETTINGS, 'threshold');
+    const sign = directionSign(settings);
+
+    const af7 = channelBandsDb[AF7]?.alpha ?? 0;
+    const af8 = channelBandsDb[AF8]?.alpha ?? 0;
+    const signalValid =
+      af7 > 0 &&
+      af8 > 0 &&
+      (horseshoe[AF7] ?? 4) <= MAX_HORSESHOE &&
+      (horseshoe[AF8] ?? 4) <= MAX_HORSESHOE;
+
+    if (signalValid) {
+      const raw = calculateAsymmetry(af7, af8);
+      const dt = lastUpdate === null ? 0 : now - lastUpdate;
+      smoothed = smoothed === null ? raw : smoothed + (raw - smoothed) * (1 - Math.exp(-dt / SMOOTHING_MS));
+    }
+    lastUpdate = now;
+
+    const asymmetry = smoothed ?? 0;
+    // How far FAA is past the threshold in the rewarded direction (ln units)
+    const distance = (asymmetry - threshold) * sign;
+
+    return {
+      signalValid,
+      rewardMet: signalValid && distance >= 0,
+      score: signalValid ? Math.max(0, Math.min(1, THRESHOLD_SCORE + distance * SCORE_SCALE)) : 0.15,
+      metrics: { asymmetry },
+    };
+  };
+}
+
+export const FRONTAL_ASYMMETRY: Protocol = {
+  name: 'frontal_asymmetry',
+  label: 'Frontal Alpha Asymmetry',
+  description: 'Shifts the balance of alpha between AF7 and AF8 - needs good forehead contact',
+  inputs: ['channelBandsDb', 'horseshoe'],
+  targetLabel: 'Asymmetry Target',
+  zoneText: {
+    flow: { label: 'On Target', description: 'Asymmetry Held' },
+    stabilizing: { label: 'Approaching', description: 'Near Target' },
+    noise: { label: 'Off Target', description: 'Keep Going' },
+  },
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'direction',
+      label: 'Reward When',
+      type: 'select',
+      options: [
+        { value: 'increase', label: 'Asymmetry rises above target (more left activity)' },
+        { value: 'decrease', label: 'Asymmetry falls below target (more right activity)' },
+      ],
+    },
+    {
+      key: 'threshold',
+      label: 'Asymmetry Target',
+      type: 'range',
+      min: -0.5,
+      max: 0.5,
+      step: 0.05,
+      format: (value) => value.toFixed(2),
+      hint: 'ln(AF8 α) − ln(AF7 α)',
+    },
+    SUSTAIN_CONTROL,
+    HYSTERESIS_CONTROL,
+    ...DWELL_CONTROLS,
+    ...AUTO_THRESHOLD_CONTROLS,
+  ],
+  // Raising the target is stricter when rewarding increases, looser when rewarding decreases
+  rewardThreshold: { key: 'threshold', stricter: directionSign },
+  createEvaluator,
+};
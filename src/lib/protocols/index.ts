@@ -0,0 +1,46 @@
+// Neurofeedback Protocols
+// Built-in protocols, selectable per session
+
+import { QUIET_POWER } from './quiet-power';
+import { FRONTAL_ASYMMETRY } from './frontal-asymmetry';
+import { SMR } from './smr';
+import { ALPHA_THETA } from './alpha-theta';
+import { CARDIAC_COHERENCE } from './cardiac-coherence';
+import { MIND_BODY } from './mind-body';
+import type { Protocol } from './protocol';
+import type { ProtocolName } from '../../types';
+
+export const PROTOCOLS: Record<ProtocolName, Protocol> = {
+  quiet_power: QUIET_POWER,
+  frontal_asymmetry: FRONTAL_ASYMMETRY,
+  smr: SMR,
+  alpha_theta: ALPHA_THETA,
+  cardiac_coherence: CARDIAC_COHERENCE,
+  mind_body: MIND_BODY,
+};
+
+export const DEFAULT_PROTOCOL: ProtocolName = 'quiet_power';
+
+export { ProtocolRunner } from './runner';
+export { getCoherenceZone, contactQuality, PROTOCOL_INPUT_LABELS } from './protocol';
+export type {
+  Protocol,
+  ProtocolControl,
+  ProtocolCue,
+  ProtocolEvaluation,
+  ProtocolFeatures,
+  ProtocolInput,
+  RewardThreshold,
+} from './protocol';
+export {
+  QUIET_POWER,
+  QUIET_POWER_WEIGHTS,
+  calculateCoherence,
+  calculateCoherenceComponents,
+  calculateBaselineCoherence,
+} from './quiet-power';
+export { FRONTAL_ASYMMETRY, calculateAsymmetry } from './frontal-asymmetry';
+export { SMR } from './smr';
+export { ALPHA_THETA } from './alpha-theta';
+export { CARDIAC_COHERENCE } from './cardiac-coherence';
+export { MIND_BODY } from './mind-body';
@@ -0,0 +1,154 @@
+// Calm Mind & Body Protocol
+// Composite of EEG calm (alpha prominence, low beta/alpha ratio, stability)
+// and PPG heart rhythm coherence, each with a user-set weight. A term whose
+// input is missing (no heart sensor yet) drops out and the rest are rescaled
+
+import {
+  AUTO_THRESHOLD_CONTROLS,
+  AUTO_THRESHOLD_DEFAULTS,
+  DWELL_CONTROLS,
+  EXIT_DEFAULTS,
+  HYSTERESIS_CONTROL,
+  SUSTAIN_CONTROL,
+  contactQuality,
+  formatPercent,
+  numberSetting,
+} from './protocol';
+import { HISTORY_LENGTH, NOISE_THRESHOLD, calculateCoherenceComponents, calculateVariance } from './quiet-power';
+import type { Protocol, ProtocolControl, ProtocolEvaluator } from './protocol';
+import type { ProtocolSettings, ScoreComponent } from '../../types';
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  threshold: 0.7, // Composite score to reward
+  alphaWeight: 0.3,
+  ratioWeight: 0.2,
+  stabilityWeight: 0.2,
+  heartWeight: 0.3,
+  sustainedMs: 5000,
+  ...EXIT_DEFAULTS,
+  ...AUTO_THRESHOLD_DEFAULTS,
+};
+
+const COMPONENTS = [
+  { key: 'alpha', label: 'Alpha', weightKey: 'alphaWeight', hint: 'Alpha prominence in relative power' },
+  { key: 'ratio', label: 'Beta/Alpha', weightKey: 'ratioWeight', hint: 'Low beta/alpha ratio (quiet mind)' },
+  { key: 'stability', label: 'Stability', weightKey: 'stabilityWeight', hint: 'Smooth, low-variance EEG' },
+  { key: 'heart', label: 'Heart', weightKey: 'heartWeight', hint: 'Heart rhythm coherence from the PPG sensor' },
+] as const;
+
+type ComponentKey = (typeof COMPONENTS)[number]['key'];
+
+const MIN_SIGNAL_POWER = 0.05;
+const MAX_HORSESHOE = 2;
+
+function createEvaluator(): ProtocolEvaluator {
+  const recentAlphaValues: number[] = [];
+  const recentBetaValues: number[] = [];
+
+  return ({ bands, horseshoe, motion, heart }, _now, settings) => {
+    const threshold = numberSetting(settings, DEFAULT_SETTINGS, 'threshold');
+
+    recentAlphaValues.push(bands.alpha);
+    recentBetaValues.push(bands.beta);
+    while (recentAlphaValues.length > HISTORY_LENGTH) {
+      recentAlphaValues.shift();
+      recentBetaValues.shift();
+    }
+
+    const totalPower = bands.alpha + bands.beta + bands.gamma + bands.theta + bands.delta;
+    const signalVariance = calculateVariance([...recentAlphaValues, ...recentBetaValues]);
+    const noiseLevel = motion + bands.gamma * 0.5; // Gamma often indicates noise/artifacts
+
+    // The EEG terms need a trustworthy signal; the heart term only needs beats
+    const signalValid =
+      totalPower >= MIN_SIGNAL_POWER &&
+      contactQuality(horseshoe) >= 0.5 &&
+      horseshoe.filter((v) => v <= MAX_HORSESHOE).length >= 3 &&
+      bands.alpha >= 0.02;
+
+    const eeg = calculateCoherenceComponents(bands, signalVariance);
+    const scores: Record<ComponentKey, number | null> = {
+      alpha: eeg.alpha,
+      ratio: eeg.ratio,
+      stability: eeg.stability,
+      heart: heart?.coherence ?? null,
+    };
+
+    // Rescale the weights of the terms that are available to sum to 1
+    const weights = COMPONENTS.map(({ key, weightKey }) =>
+      scores[key] === null ? 0 : Math.max(0, numberSetting(settings, DEFAULT_SETTINGS, weightKey))
+    );
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+    const components: Record<string, ScoreComponent> = {};
+    let composite = 0;
+    COMPONENTS.forEach(({ key }, i) => {
+      const weight = totalWeight > 0 ? weights[i] / totalWeight : 0;
+      components[key] = { score: scores[key], weight };
+      composite += (scores[key] ?? 0) * weight;
+    });
+
+    const gate = !signalValid
+      ? 'EEG signal not trusted - check contact'
+      : noiseLevel >= NOISE_THRESHOLD
+        ? 'Motion or muscle noise'
+        : composite < threshold
+          ? 'Composite below threshold'
+          : null;
+
+    return {
+      signalValid,
+      rewardMet: gate === null,
+      score: signalValid ? composite : 0.15,
+      metrics: { signalVariance, noiseLevel, heartCoherence: scores.heart ?? 0 },
+      components,
+      gate,
+    };
+  };
+}
+
+const WEIGHT_CONTROLS: ProtocolControl[] = COMPONENTS.map(({ label, weightKey, hint }) => ({
+  key: weightKey,
+  label: `${label} Weight`,
+  type: 'range',
+  min: 0,
+  max: 1,
+  step: 0.05,
+  format: (value) => value.toFixed(2),
+  hint: `${hint} - weights are scaled to sum to 1`,
+}));
+
+export const MIND_BODY: Protocol = {
+  name: 'mind_body',
+  label: 'Calm Mind & Body',
+  description:
+    'Weighted blend of EEG calm and heart rhythm coherence - the heart term joins after a minute of beats on a Muse 2 or Muse S',
+  inputs: ['bands', 'horseshoe', 'motion', 'heart'],
+  targetLabel: 'Calm Mind & Body',
+  zoneText: {
+    flow: { label: 'Calm Mind & Body', description: 'Mind and Heart Settled' },
+    stabilizing: { label: 'Settling', description: 'Partly Calm' },
+    noise: { label: 'Active', description: 'Breathe and Soften' },
+  },
+  components: COMPONENTS.map(({ key, label }) => ({ key, label })),
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'threshold',
+      label: 'Composite Threshold',
+      type: 'range',
+      min: 0.2,
+      max: 0.95,
+      step: 0.05,
+      format: formatPercent,
+      hint: 'Weighted score of all components needed for the reward',
+    },
+    ...WEIGHT_CONTROLS,
+    SUSTAIN_CONTROL,
+    HYSTERESIS_CONTROL,
+    ...DWELL_CONTROLS,
+    ...AUTO_THRESHOLD_CONTROLS,
+  ],
+  rewardThreshold: { key: 'threshold', stricter: () => 1 },
+  createEvaluator,
+};
@@ -0,0 +1,247 @@
+// Neurofeedback Protocol Definitions
+// A protocol declares the features it reads, how to score them, when the
+// reward condition is met, and the settings a user can adjust
+
+import type {
+  BandValues,
+  BrainwaveBands,
+  BrainwaveBandsDb,
+  CoherenceZone,
+  CoherenceZoneText,
+  HeartMetrics,
+  ProtocolName,
+  ProtocolSettings,
+  RewardCue,
+  ScoreComponent,
+  SessionEventType,
+} from '../../types';
+
+/**
+ * Everything a protocol can read on each update
+ */
+export interface ProtocolFeatures {
+  bands: BrainwaveBands; // Smoothed relative power, averaged over electrodes
+  bandsDb: BrainwaveBandsDb; // Smoothed absolute power (dB), averaged over electrodes
+  channelBands: BrainwaveBands[]; // Per electrode [TP9, AF7, AF8, TP10]
+  channelBandsDb: BrainwaveBandsDb[]; // Per electrode [TP9, AF7, AF8, TP10]
+  spectra: Float32Array[]; // Per electrode Welch magnitudes below Nyquist, spectrumBinWidth() Hz apart (empty if unavailable)
+  zBands: BandValues | null; // Relative power z-scored against the session baseline (null without one)
+  horseshoe: number[]; // Electrode contact, 1 = good ... 4 = off
+  motion: number; // 0-1
+  artifact: boolean; // Band powers are stale or partial while artifacts are rejected
+  heart: HeartMetrics | null; // PPG heart rate and HRV (null without a heart sensor or a recent beat)
+}
+
+export type ProtocolInput = keyof ProtocolFeatures;
+
+export const PROTOCOL_INPUT_LABELS: Record<ProtocolInput, string> = {
+  bands: 'relative band power',
+  bandsDb: 'absolute band power',
+  channelBands: 'per-electrode relative power',
+  channelBandsDb: 'per-electrode absolute power',
+  spectra: 'raw EEG spectrum',
+  zBands: 'baseline z-scores (if recorded)',
+  horseshoe: 'electrode contact',
+  motion: 'head motion',
+  artifact: 'artifact rejection',
+  heart: 'PPG heart rhythm',
+};
+
+/**
+ * One frame's verdict from a protocol (before sustain rules)
+ */
+export interface ProtocolEvaluation {
+  signalValid: boolean; // Inputs are trustworthy
+  rewardValid?: boolean; // Contact good enough to sound the reward (defaults to signalValid)
+  rewardMet: boolean; // Reward condition holds right now
+  score: number; // 0-1, with the reward threshold at 0.7
+  metrics: Record<string, number>;
+  inhibits?: Record<string, boolean>; // Inhibit key -> over threshold (blocks the reward)
+  cues?: Record<string, boolean>; // Cue key -> on
+  components?: Record<string, ScoreComponent>; // Component key -> score and weight
+  scores?: Record<string, number>; // Feature scores (0-1) behind the score
+  gate?: string | null; // First check holding the score or reward back (defaults from signalValid/rewardMet)
+}
+
+/**
+ * Scores successive feature frames - may keep history between calls
+ * Settings are passed every frame so thresholds can move without losing that history
+ */
+export type ProtocolEvaluator = (
+  features: ProtocolFeatures,
+  now: number,
+  settings: ProtocolSettings
+) => ProtocolEvaluation;
+
+/**
+ * A user-adjustable protocol setting, rendered in Detection Settings
+ */
+export type ProtocolControl =
+  | {
+      key: string;
+      label: string;
+      type: 'range';
+      min: number;
+      max: number;
+      step: number;
+      format: (value: number) => string;
+      hint?: string;
+    }
+  | {
+      key: string;
+      label: string;
+      type: 'select';
+      options: { value: string; label: string }[];
+      hint?: string;
+    };
+
+/**
+ * A tone played when one of the protocol's cues switches on,
+ * optionally logged as a session event
+ */
+export interface ProtocolCue {
+  key: string;
+  label: string;
+  sound: RewardCue;
+  event?: SessionEventType;
+}
+
+/**
+ * The range setting that gates the reward - moved by auto-threshold mode
+ * and loosened by exit hysteresis while the target is held
+ */
+export interface RewardThreshold {
+  key: string; // Key of one of the protocol's range controls
+  stricter: (settings: ProtocolSettings) => 1 | -1; // Direction that makes the reward harder
+}
+
+export interface Protocol {
+  name: ProtocolName;
+  label: string;
+  description: string;
+  inputs: ProtocolInput[];
+  targetLabel: string; // Shown while the reward condition is sustained
+  zoneText?: CoherenceZoneText; // Overrides the Flow State wording on the graph
+  inhibits?: { key: string; label: string }[]; // Shown during the session
+  cues?: ProtocolCue[];
+  components?: { key: string; label: string }[]; // Parts of a composite score, shown live and saved each second
+  rewardThreshold?: RewardThreshold; // Protocols with one offer auto-threshold mode and exit hysteresis
+  pacedBreathing?: string; // Key of a range setting in breaths/min - shows a breathing pacer during the session
+  defaultSettings: ProtocolSettings;
+  controls: ProtocolControl[];
+  createEvaluator(): ProtocolEvaluator;
+}
+
+/**
+ * Control display format for a 0-1 share
+ */
+export const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Sustain-time control shared by every protocol
+export const SUSTAIN_CONTROL: ProtocolControl = {
+  key: 'sustainedMs',
+  label: 'Time Threshold',
+  type: 'range',
+  min: 1000,
+  max: 10000,
+  step: 1000,
+  format: (ms) => `${ms / 1000}s`,
+  hint: 'How long the target must be held before the reward starts',
+};
+
+// Exit rules shared by every protocol - hysteresis only applies with a reward threshold
+export const EXIT_DEFAULTS = {
+  exitHysteresis: 0.05,
+  graceMs: 500,
+  refractoryMs: 0,
+};
+
+export const HYSTERESIS_CONTROL: ProtocolControl = {
+  key: 'exitHysteresis',
+  label: 'Exit Hysteresis',
+  type: 'range',
+  min: 0,
+  max: 0.25,
+  step: 0.01,
+  format: formatPercent,
+  hint: 'Once the target is held, its threshold loosens by this share of the slider range',
+};
+
+export const DWELL_CONTROLS: ProtocolControl[] = [
+  {
+    key: 'graceMs',
+    label: 'Exit Grace Period',
+    type: 'range',
+    min: 0,
+    max: 3000,
+    step: 250,
+    format: (ms) => `${ms / 1000}s`,
+    hint: 'How long the condition may lapse before the reward ends',
+  },
+  {
+    key: 'refractoryMs',
+    label: 'Re-entry Delay',
+    type: 'range',
+    min: 0,
+    max: 10000,
+    step: 500,
+    format: (ms) => `${ms / 1000}s`,
+    hint: 'Wait after the reward ends before the time threshold starts again',
+  },
+];
+
+// Auto-threshold settings, added by protocols with a reward threshold
+export const AUTO_THRESHOLD_DEFAULTS = {
+  autoThreshold: 'off',
+  targetRewardRate: 0.65,
+};
+
+export const AUTO_THRESHOLD_CONTROLS: ProtocolControl[] = [
+  {
+    key: 'autoThreshold',
+    label: 'Threshold Mode',
+    type: 'select',
+    options: [
+      { value: 'off', label: 'Fixed' },
+      { value: 'on', label: 'Auto - adapt to hit the target reward rate' },
+    ],
+  },
+  {
+    key: 'targetRewardRate',
+    label: 'Target Reward Rate',
+    type: 'range',
+    min: 0.3,
+    max: 0.9,
+    step: 0.05,
+    format: formatPercent,
+    hint: 'Share of time the reward condition should hold in auto mode',
+  },
+];
+
+/**
+ * Determine which zone a protocol score falls into
+ */
+export function getCoherenceZone(score: number): CoherenceZone {
+  if (score >= 0.7) return 'flow';
+  if (score >= 0.4) return 'stabilizing';
+  return 'noise';
+}
+
+/**
+ * Electrode contact (0-1) from horseshoe values: good = 1, medium = 0.5
+ */
+export function contactQuality(horseshoe: number[]): number {
+  return horseshoe.reduce((sum, v) => sum + (v === 1 ? 1 : v === 2 ? 0.5 : 0), 0) / 4;
+}
+
+/**
+ * Read a numeric setting, falling back to the protocol default
+ */
+export function numberSetting(
+  settings: ProtocolSettings,
+  defaults: Record<string, number | string>,
+  key: string
+): number {
+  const value = settings[key];
+  return typeof value === 'number' && isFinite(value) ? value : (defaults[key] as number);
+}
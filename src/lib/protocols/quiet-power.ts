@@ -0,0 +1,314 @@
+// Quiet Power Protocol
+// Rewards a calm, focused state: Beta < Alpha, low variance, low noise
+// With a session baseline, alpha/beta/theta are scored as z-scores against it
+
+import {
+  AUTO_THRESHOLD_CONTROLS,
+  AUTO_THRESHOLD_DEFAULTS,
+  DWELL_CONTROLS,
+  EXIT_DEFAULTS,
+  HYSTERESIS_CONTROL,
+  SUSTAIN_CONTROL,
+  contactQuality,
+  formatPercent,
+  numberSetting,
+} from './protocol';
+import type { Protocol, ProtocolEvaluator } from './protocol';
+import type { BandValues, BrainwaveBands, ProtocolSettings } from '../../types';
+
+// Score weights - how much each feature contributes to coherence
+export interface CoherenceWeights {
+  alpha: number; // Alpha prominence
+  ratio: number; // Low beta/alpha ratio
+  theta: number; // Moderate theta
+  stability: number; // Low variance
+}
+
+export const QUIET_POWER_WEIGHTS: CoherenceWeights = {
+  alpha: 0.35,
+  ratio: 0.25,
+  theta: 0.2,
+  stability: 0.2,
+};
+
+// Each feature's score (0-1) before weighting
+export type CoherenceComponents = CoherenceWeights;
+
+// Early-out checks that fix the coherence score instead of the features
+export type CoherenceGate = 'no_signal' | 'poor_contact' | 'no_alpha';
+
+export const COHERENCE_GATE_LABELS: Record<CoherenceGate, string> = {
+  no_signal: 'No signal - total band power under 5%',
+  poor_contact: 'Poor electrode contact',
+  no_alpha: 'No alpha detected',
+};
+
+// A coherence score with the feature scores behind it
+export interface CoherenceBreakdown {
+  score: number; // 0-1
+  gate: CoherenceGate | null; // Check that fixed the score, if any
+  alphaScore: number;
+  ratioScore: number;
+  thetaScore: number;
+  stabilityScore: number;
+}
+
+const VARIANCE_THRESHOLD = 0.15; // Maximum variance allowed
+export const NOISE_THRESHOLD = 0.3; // Maximum noise level
+const MIN_SIGNAL_POWER = 0.05; // Require at least 5% total power
+const MIN_VARIANCE = 0.001; // Require some variance (not flat line)
+export const HISTORY_LENGTH = 30; // ~1 second of data at 30fps
+const Z_SCALE = 4; // z-score range mapped onto half of a feature score (+2 SD = full marks)
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  coherenceThreshold: 0.7,
+  sustainedMs: 5000,
+  ...EXIT_DEFAULTS,
+  ...AUTO_THRESHOLD_DEFAULTS,
+};
+
+/**
+ * Calculate coherence score (0-1) based on brainwave data, with the
+ * feature scores behind it and any check that overrode them
+ * Higher score = more coherent/stable state approaching Quiet Power
+ */
+export function calculateCoherence(
+  bands: BrainwaveBands,
+  variance: number,
+  electrodeQuality: number = 1,
+  weights: CoherenceWeights = QUIET_POWER_WEIGHTS
+): CoherenceBreakdown {
+  const { alpha, beta, gamma, theta, delta } = bands;
+  const scores = calculateCoherenceComponents(bands, variance);
+
+  // Check if we have valid signal (not all zeros)
+  const totalPower = alpha + beta + gamma + theta + delta;
+
+  // SIGNAL VALIDITY: Return low coherence if signal is invalid
+  if (totalPower < 0.05) {
+    // No meaningful signal - return low value
+    return withScores(0.1, 'no_signal', scores);
+  }
+
+  if (electrodeQuality < 0.5) {
+    // Poor electrode contact - signal unreliable
+    return withScores(0.15, 'poor_contact', scores);
+  }
+
+  if (alpha < 0.01) {
+    // No alpha detected - not a calm state
+    return withScores(0.2, 'no_alpha', scores);
+  }
+
+  // Combine scores with weights
+  const coherence = (
+    scores.alpha * weights.alpha +
+    scores.ratio * weights.ratio +
+    scores.theta * weights.theta +
+    scores.stability * weights.stability
+  );
+
+  // Normalize to 0-1
+  return withScores(clamp01(coherence), null, scores);
+}
+
+/**
+ * Score each coherence feature (0-1) from relative band power and signal variance
+ */
+export function calculateCoherenceComponents(bands: BrainwaveBands, variance: number): CoherenceComponents {
+  const { alpha, beta, gamma, theta, delta } = bands;
+  const totalPower = alpha + beta + gamma + theta + delta;
+  if (totalPower <= 0) return { alpha: 0, ratio: 0, theta: 0, stability: 0 };
+
+  // Alpha prominence: higher alpha relative to high-frequency bands is good
+  // Normalize alpha against total to get relative power
+  const alphaRelative = alpha / totalPower;
+  const alphaScore = Math.min(1, alphaRelative * 3); // Scale up since alpha is typically 0.1-0.3
+
+  // Beta/Alpha ratio: lower is better (less mental activity)
+  const betaAlphaRatio = alpha > 0.01 ? beta / alpha : 2;
+  const ratioScore = Math.max(0, Math.min(1, 1.5 - betaAlphaRatio));
+
+  // Theta contribution: moderate theta is associated with relaxation
+  const thetaRelative = theta / totalPower;
+  const thetaScore = Math.min(1, thetaRelative * 2.5);
+
+  // Stability score from variance (lower variance = more coherent)
+  const stabilityScore = Math.max(0, 1 - Math.sqrt(variance) * 3);
+
+  return { alpha: alphaScore, ratio: ratioScore, theta: thetaScore, stability: stabilityScore };
+}
+
+/**
+ * Calculate coherence score (0-1) from band z-scores against a session baseline
+ * Resting at baseline scores about 0.6 - holding the target needs alpha up
+ * and beta down relative to the user's own rest
+ */
+export function calculateBaselineCoherence(
+  z: BandValues,
+  variance: number,
+  electrodeQuality: number = 1,
+  weights: CoherenceWeights = QUIET_POWER_WEIGHTS
+): CoherenceBreakdown {
+  const zAlpha = z.alpha ?? 0;
+  const zBeta = z.beta ?? 0;
+  const zTheta = z.theta ?? 0;
+
+  const scores: CoherenceComponents = {
+    alpha: clamp01(0.5 + zAlpha / Z_SCALE),
+    ratio: clamp01(0.5 + (zAlpha - zBeta) / Z_SCALE),
+    theta: clamp01(0.5 + zTheta / Z_SCALE),
+    stability: Math.max(0, 1 - Math.sqrt(variance) * 3),
+  };
+
+  if (electrodeQuality < 0.5) {
+    // Poor electrode contact - signal unreliable
+    return withScores(0.15, 'poor_contact', scores);
+  }
+
+  return withScores(
+    clamp01(
+      scores.alpha * weights.alpha +
+        scores.ratio * weights.ratio +
+        scores.theta * weights.theta +
+        scores.stability * weights.stability
+    ),
+    null,
+    scores
+  );
+}
+
+function withScores(score: number, gate: CoherenceGate | null, scores: CoherenceComponents): CoherenceBreakdown {
+  return {
+    score,
+    gate,
+    alphaScore: scores.alpha,
+    ratioScore: scores.ratio,
+    thetaScore: scores.theta,
+    stabilityScore: scores.stability,
+  };
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+export function calculateVariance(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const squaredDiffs = values.map((v) => Math.pow(v - mean, 2));
+  return squaredDiffs.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function createEvaluator(): ProtocolEvaluator {
+  const recentAlphaValues: number[] = [];
+  const recentBetaValues: number[] = [];
+
+  return ({ bands, zBands, horseshoe, motion }, _now, settings) => {
+    // Higher coherence threshold = stricter condition = lower beta/alpha ratio threshold
+    const coherenceThreshold = numberSetting(settings, DEFAULT_SETTINGS, 'coherenceThreshold');
+    const betaAlphaRatioThreshold = 1.0 - (coherenceThreshold - 0.7) * 2;
+
+    // Store recent values for variance calculation
+    recentAlphaValues.push(bands.alpha);
+    recentBetaValues.push(bands.beta);
+    while (recentAlphaValues.length > HISTORY_LENGTH) {
+      recentAlphaValues.shift();
+      recentBetaValues.shift();
+    }
+
+    const totalPower = bands.alpha + bands.beta + bands.gamma + bands.theta + bands.delta;
+    const betaAlphaRatio = bands.alpha > 0.01 ? bands.beta / bands.alpha : 10;
+    const signalVariance = calculateVariance([...recentAlphaValues, ...recentBetaValues]);
+    const noiseLevel = motion + bands.gamma * 0.5; // Gamma often indicates noise/artifacts
+    const contact = contactQuality(horseshoe);
+
+    // SIGNAL VALIDITY CHECKS:
+    // minimum total power, at least 50% contact quality, some variance (not a
+    // flat line), and detectable alpha
+    const invalidReason =
+      totalPower < MIN_SIGNAL_POWER
+        ? COHERENCE_GATE_LABELS.no_signal
+        : contact < 0.5
+          ? COHERENCE_GATE_LABELS.poor_contact
+          : signalVariance < MIN_VARIANCE
+            ? 'Flat signal'
+            : bands.alpha < 0.02
+              ? COHERENCE_GATE_LABELS.no_alpha
+              : null;
+    const signalValid = invalidReason === null;
+    // The reward itself also needs 3 of 4 electrodes good/medium - flow time
+    // and the score don't
+    const rewardValid = signalValid && horseshoe.filter((v) => v <= 2).length >= 3;
+
+    // Against a baseline the score itself is relative, so it is held to the threshold
+    // directly; otherwise the absolute beta/alpha ratio is
+    const breakdown = zBands
+      ? calculateBaselineCoherence(zBands, signalVariance, contact)
+      : calculateCoherence(bands, signalVariance, contact);
+    const { score } = breakdown;
+    const targetMet = zBands ? score >= coherenceThreshold : betaAlphaRatio < betaAlphaRatioThreshold;
+
+    // The first check holding the score or flow state back, in the order they apply
+    const targetGate =
+      (breakdown.gate && COHERENCE_GATE_LABELS[breakdown.gate]) ??
+      invalidReason ??
+      (signalVariance >= VARIANCE_THRESHOLD
+        ? 'Signal too variable'
+        : noiseLevel >= NOISE_THRESHOLD
+          ? 'Motion or muscle noise'
+          : !targetMet
+            ? zBands
+              ? 'Score below the coherence threshold'
+              : `Beta/alpha ratio above ${betaAlphaRatioThreshold.toFixed(2)}`
+            : null);
+
+    return {
+      signalValid,
+      rewardValid,
+      rewardMet: targetGate === null,
+      score,
+      scores: {
+        alphaScore: breakdown.alphaScore,
+        ratioScore: breakdown.ratioScore,
+        thetaScore: breakdown.thetaScore,
+        stabilityScore: breakdown.stabilityScore,
+      },
+      gate: targetGate ?? (rewardValid ? null : 'Fewer than 3 electrodes with good contact - reward muted'),
+      metrics: {
+        betaAlphaRatio,
+        signalVariance,
+        noiseLevel,
+        ...(zBands && { alphaZ: zBands.alpha ?? 0, betaZ: zBands.beta ?? 0 }),
+      },
+    };
+  };
+}
+
+export const QUIET_POWER: Protocol = {
+  name: 'quiet_power',
+  label: 'Quiet Power',
+  description: 'Calm focus: beta below alpha with smooth, low-noise signals',
+  inputs: ['bands', 'zBands', 'horseshoe', 'motion'],
+  targetLabel: 'Flow State',
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'coherenceThreshold',
+      label: 'Coherence Threshold',
+      type: 'range',
+      min: 0.2,
+      max: 0.9,
+      step: 0.05,
+      format: formatPercent,
+      hint: 'Higher threshold = stricter Flow State detection',
+    },
+    SUSTAIN_CONTROL,
+    HYSTERESIS_CONTROL,
+    ...DWELL_CONTROLS,
+    ...AUTO_THRESHOLD_CONTROLS,
+  ],
+  rewardThreshold: { key: 'coherenceThreshold', stricter: () => 1 },
+  createEvaluator,
+};
@@ -0,0 +1,263 @@
+// Protocol Runner
+// Applies a protocol's sustain rule: the reward turns on once its condition
+// has held for sustainedMs, and off once it has lapsed for the grace period
+// (against a threshold loosened by the exit hysteresis). A refractory delay
+// holds off re-entry. In auto-threshold mode it also steps the reward
+// threshold toward a target reward rate. Through short EEG artifacts the
+// last verdict is held rather than scoring contaminated band powers
+
+import { QUIET_POWER } from './quiet-power';
+import { AUTO_THRESHOLD_DEFAULTS, EXIT_DEFAULTS, numberSetting } from './protocol';
+import type { Protocol, ProtocolEvaluation, ProtocolEvaluator, ProtocolFeatures } from './protocol';
+import type { ProtocolSettings, ProtocolState } from '../../types';
+
+const RATE_WINDOW_MS = 20000; // Sliding window the reward rate is measured over
+const MIN_RATE_WINDOW_MS = 10000; // Measure at least this long after each threshold step
+const RATE_TOLERANCE = 0.05; // Leave the threshold alone within this of the target rate
+const MAX_ARTIFACT_HOLD_MS = 2000; // Longer artifacts count as lost signal
+
+export class ProtocolRunner {
+  private protocol: Protocol;
+  private configuredSettings: ProtocolSettings; // As chosen by the user
+  private settings: ProtocolSettings; // Live, including the adapted threshold
+  private evaluate: ProtocolEvaluator;
+  private conditionMetSince: number | null = null;
+  private conditionLostSince: number | null = null; // While active, start of the current lapse
+  private refractoryUntil = 0;
+  private _isActive = false;
+
+  // Last clean verdict, held while artifacts are being rejected
+  private lastEvaluation: ProtocolEvaluation | null = null;
+  private artifactSince: number | null = null;
+
+  // Auto-threshold reward rate window (signal-valid frames only)
+  private rateFrames: { time: number; met: boolean }[] = [];
+  private rateWindowStart: number | null = null;
+
+  // Callbacks
+  onEnterTarget?: () => void;
+  onExitTarget?: () => void;
+
+  constructor(protocol: Protocol = QUIET_POWER, settings: Partial<ProtocolSettings> = {}) {
+    this.protocol = protocol;
+    this.configuredSettings = { ...protocol.defaultSettings, ...settings } as ProtocolSettings;
+    this.settings = { ...this.configuredSettings };
+    this.evaluate = protocol.createEvaluator();
+  }
+
+  /**
+   * Switch protocol (resets all state)
+   */
+  setProtocol(protocol: Protocol, settings: Partial<ProtocolSettings> = {}): void {
+    this.protocol = protocol;
+    this.configuredSettings = { ...protocol.defaultSettings, ...settings } as ProtocolSettings;
+    this.reset();
+  }
+
+  /**
+   * Update the current protocol's settings (resets all state)
+   */
+  setSettings(settings: Partial<ProtocolSettings>): void {
+    this.configuredSettings = { ...this.configuredSettings, ...settings } as ProtocolSettings;
+    this.reset();
+  }
+
+  /**
+   * Update with the latest features - call every frame
+   * Pass `now` when processing recorded data instead of live frames
+   */
+  update(features: ProtocolFeatures, now: number = Date.now()): ProtocolState {
+    const {
+      signalValid,
+      rewardValid = signalValid,
+      rewardMet,
+      score,
+      metrics,
+      inhibits = {},
+      cues = {},
+      components = {},
+      scores = {},
+      gate = !signalValid ? 'Signal not trusted' : !rewardMet ? 'Reward condition not met' : null,
+    } = this.evaluateFrame(features, now);
+
+    if (rewardMet) {
+      this.conditionLostSince = null;
+      if (this.conditionMetSince === null && now >= this.refractoryUntil) {
+        this.conditionMetSince = now;
+      }
+    } else if (this._isActive) {
+      // Ride out lapses shorter than the grace period
+      this.conditionLostSince ??= now;
+      if (now - this.conditionLostSince >= numberSetting(this.settings, EXIT_DEFAULTS, 'graceMs')) {
+        this._isActive = false;
+        this.conditionMetSince = null;
+        this.conditionLostSince = null;
+        this.refractoryUntil = now + numberSetting(this.settings, EXIT_DEFAULTS, 'refractoryMs');
+        this.onExitTarget?.();
+      }
+    } else {
+      // Condition broken or signal invalid before the target was reached - reset timer
+      this.conditionMetSince = null;
+    }
+
+    // Check if sustained long enough
+    const sustainedMs = this.conditionMetSince !== null ? now - this.conditionMetSince : 0;
+
+    if (sustainedMs >= this.settings.sustainedMs && !this._isActive) {
+      this._isActive = true;
+      this.onEnterTarget?.();
+    }
+
+    return {
+      isActive: this._isActive,
+      sustainedMs,
+      score,
+      signalValid,
+      rewardValid,
+      metrics,
+      inhibits,
+      cues,
+      components,
+      scores,
+      gate,
+      threshold: this.threshold,
+    };
+  }
+
+  /**
+   * Evaluate a frame, or hold the last verdict through a short artifact
+   * (the band powers are stale or missing channels until it clears)
+   */
+  private evaluateFrame(features: ProtocolFeatures, now: number): ProtocolEvaluation {
+    // The PPG heart rhythm is unaffected by EEG artifacts
+    const readsEEG = this.protocol.inputs.some((input) => input !== 'heart');
+    if (features.artifact && readsEEG) {
+      this.artifactSince ??= now;
+      if (this.lastEvaluation) {
+        return now - this.artifactSince < MAX_ARTIFACT_HOLD_MS
+          ? { ...this.lastEvaluation, gate: 'Artifact - holding the last score' }
+          : {
+              ...this.lastEvaluation,
+              signalValid: false,
+              rewardValid: false,
+              rewardMet: false,
+              score: 0.15,
+              gate: 'Artifact for over 2 s',
+            };
+      }
+    } else {
+      this.artifactSince = null;
+    }
+
+    const evaluation = this.evaluate(features, now, this._isActive ? this.exitSettings() : this.settings);
+    this.adaptThreshold(evaluation.rewardMet, evaluation.signalValid, now);
+    this.lastEvaluation = evaluation;
+    return evaluation;
+  }
+
+  /**
+   * Settings while the target is held: the reward threshold is loosened by
+   * the exit hysteresis, as a share of its control's range
+   */
+  private exitSettings(): ProtocolSettings {
+    const rewardThreshold = this.protocol.rewardThreshold;
+    const control = this.protocol.controls.find((c) => c.key === rewardThreshold?.key);
+    const hysteresis = numberSetting(this.settings, EXIT_DEFAULTS, 'exitHysteresis');
+    if (!rewardThreshold || control?.type !== 'range' || hysteresis <= 0) return this.settings;
+
+    const value = numberSetting(this.settings, this.protocol.defaultSettings, rewardThreshold.key);
+    const loosening = rewardThreshold.stricter(this.settings) * hysteresis * (control.max - control.min);
+    return { ...this.settings, [rewardThreshold.key]: value - loosening };
+  }
+
+  /**
+   * In auto-threshold mode, step the reward threshold one control step
+   * stricter or looser when the reward rate drifts off target
+   */
+  private adaptThreshold(rewardMet: boolean, signalValid: boolean, now: number): void {
+    const rewardThreshold = this.protocol.rewardThreshold;
+    if (!rewardThreshold || this.settings.autoThreshold !== 'on') return;
+
+    // Bad contact says nothing about difficulty, so only valid frames count
+    if (signalValid) this.rateFrames.push({ time: now, met: rewardMet });
+    while (this.rateFrames.length > 0 && now - this.rateFrames[0].time > RATE_WINDOW_MS) {
+      this.rateFrames.shift();
+    }
+
+    this.rateWindowStart ??= now;
+    if (now - this.rateWindowStart < MIN_RATE_WINDOW_MS || this.rateFrames.length === 0) return;
+
+    const rate = this.rateFrames.filter((f) => f.met).length / this.rateFrames.length;
+    const target = numberSetting(this.settings, AUTO_THRESHOLD_DEFAULTS, 'targetRewardRate');
+    if (Math.abs(rate - target) <= RATE_TOLERANCE) return;
+
+    const control = this.protocol.controls.find((c) => c.key === rewardThreshold.key);
+    if (control?.type !== 'range') return;
+
+    // Rewarded too often -> stricter, too rarely -> looser
+    const direction = (rate > target ? 1 : -1) * rewardThreshold.stricter(this.settings);
+    const current = numberSetting(this.settings, this.protocol.defaultSettings, rewardThreshold.key);
+    const next = Math.max(control.min, Math.min(control.max, current + direction * control.step));
+    if (next === current) return;
+
+    this.settings = { ...this.settings, [rewardThreshold.key]: Number(next.toFixed(6)) };
+    // Measure the new threshold afresh
+    this.rateFrames = [];
+    this.rateWindowStart = now;
+  }
+
+  /**
+   * Reset sustain timers, the protocol's history and any adapted threshold
+   */
+  reset(): void {
+    this.interrupt();
+    this.settings = { ...this.configuredSettings };
+    this.rateFrames = [];
+    this.rateWindowStart = null;
+    this.evaluate = this.protocol.createEvaluator();
+  }
+
+  /**
+   * Clear only the timing state, after the input stream was interrupted - the
+   * adapted threshold, reward rate window and protocol history carry on
+   */
+  interrupt(): void {
+    this.conditionMetSince = null;
+    this.conditionLostSince = null;
+    this.refractoryUntil = 0;
+    this._isActive = false;
+    this.lastEvaluation = null;
+    this.artifactSince = null;
+  }
+
+  /**
+   * Get current state
+   */
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  /**
+   * Current value of the protocol's reward threshold (null if it has none)
+   */
+  get threshold(): number | null {
+    const rewardThreshold = this.protocol.rewardThreshold;
+    return rewardThreshold
+      ? numberSetting(this.settings, this.protocol.defaultSettings, rewardThreshold.key)
+      : null;
+  }
+
+  /**
+   * Get the running protocol
+   */
+  getProtocol(): Protocol {
+    return this.protocol;
+  }
+
+  /**
+   * Get the running protocol's settings
+   */
+  getSettings(): ProtocolSettings {
+    return { ...this.settings };
+  }
+}
@@ -0,0 +1,164 @@
+// SMR Protocol
+// Rewards sensorimotor rhythm (12-15 Hz) while inhibiting theta and high beta.
+// The standard band table lumps SMR into beta, so sub-bands are taken
+// straight from the Welch spectrum
+
+import { FFTProcessor } from '../fft-processor';
+import {
+  AUTO_THRESHOLD_CONTROLS,
+  AUTO_THRESHOLD_DEFAULTS,
+  DWELL_CONTROLS,
+  EXIT_DEFAULTS,
+  HYSTERESIS_CONTROL,
+  SUSTAIN_CONTROL,
+  formatPercent,
+  numberSetting,
+} from './protocol';
+import type { Protocol, ProtocolEvaluator } from './protocol';
+import type { ProtocolSettings } from '../../types';
+
+const DEFAULT_SETTINGS: ProtocolSettings = {
+  smrThreshold: 0.06, // Reward while SMR share of 1-30 Hz power is at least this
+  thetaInhibit: 0.3, // Inhibit while theta share exceeds this
+  highBetaInhibit: 0.15, // Inhibit while high beta share exceeds this
+  sustainedMs: 2000,
+  ...EXIT_DEFAULTS,
+  ...AUTO_THRESHOLD_DEFAULTS, // Auto mode adapts the SMR threshold; inhibits stay fixed
+};
+
+// Sub-band ranges (Hz)
+const SUB_BANDS = {
+  theta: [4, 8],
+  smr: [12, 15],
+  highBeta: [20, 30],
+} as const;
+const TOTAL_RANGE = [1, 30] as const;
+
+type SubBand = keyof typeof SUB_BANDS;
+const SUB_BAND_NAMES = Object.keys(SUB_BANDS) as SubBand[];
+
+const SMOOTHING_MS = 1000; // Time constant of the sub-band moving average
+const MAX_HORSESHOE = 2; // Electrodes must be medium or better to count
+const MIN_CHANNELS = 2;
+
+// Graph score at the reward threshold, and the cap while an inhibit is over
+const THRESHOLD_SCORE = 0.7;
+const INHIBITED_SCORE = 0.55;
+
+// Band power helpers read the bin spacing from each spectrum's length, so
+// one instance serves any Welch segment length
+const fft = new FFTProcessor();
+
+function createEvaluator(): ProtocolEvaluator {
+  let smoothed: Record<SubBand, number> | null = null;
+  let lastUpdate: number | null = null;
+
+  return ({ spectra, horseshoe }, now, settings) => {
+    const smrThreshold = numberSetting(settings, DEFAULT_SETTINGS, 'smrThreshold');
+    const thetaInhibit = numberSetting(settings, DEFAULT_SETTINGS, 'thetaInhibit');
+    const highBetaInhibit = numberSetting(settings, DEFAULT_SETTINGS, 'highBetaInhibit');
+
+    // Sum sub-band and total power over electrodes with usable contact
+    const power: Record<SubBand, number> = { theta: 0, smr: 0, highBeta: 0 };
+    let total = 0;
+    let channels = 0;
+    spectra.forEach((magnitudes, ch) => {
+      if (magnitudes.length === 0 || (horseshoe[ch] ?? 4) > MAX_HORSESHOE) return;
+      for (const band of SUB_BAND_NAMES) {
+        power[band] += fft.getBandPowerSum(magnitudes, SUB_BANDS[band][0], SUB_BANDS[band][1]);
+      }
+      total += fft.getBandPowerSum(magnitudes, TOTAL_RANGE[0], TOTAL_RANGE[1]);
+      channels++;
+    });
+
+    const signalValid = channels >= MIN_CHANNELS && total > 0;
+
+    if (signalValid) {
+      const dt = lastUpdate === null ? 0 : now - lastUpdate;
+      const weight = 1 - Math.exp(-dt / SMOOTHING_MS);
+      const next = { ...power };
+      for (const band of SUB_BAND_NAMES) {
+        const share = power[band] / total;
+        next[band] = smoothed === null ? share : smoothed[band] + (share - smoothed[band]) * weight;
+      }
+      smoothed = next;
+    }
+    lastUpdate = now;
+
+    const { theta, smr, highBeta } = smoothed ?? { theta: 0, smr: 0, highBeta: 0 };
+    const inhibits = {
+      theta: signalValid && theta > thetaInhibit,
+      highBeta: signalValid && highBeta > highBetaInhibit,
+    };
+    const inhibited = inhibits.theta || inhibits.highBeta;
+
+    // Score scales with SMR relative to its threshold, held below the
+    // reward line while an inhibit is over
+    let score = signalValid ? Math.min(1, (THRESHOLD_SCORE * smr) / smrThreshold) : 0.15;
+    if (inhibited) score = Math.min(score, INHIBITED_SCORE);
+
+    return {
+      signalValid,
+      rewardMet: signalValid && smr >= smrThreshold && !inhibited,
+      score,
+      metrics: { smr, theta, highBeta },
+      inhibits,
+    };
+  };
+}
+
+export const SMR: Protocol = {
+  name: 'smr',
+  label: 'SMR Uptraining',
+  description: 'Raises 12-15 Hz SMR while holding theta and high beta down - needs raw EEG (Bluetooth, replay or simulator)',
+  inputs: ['spectra', 'horseshoe'],
+  targetLabel: 'SMR Reward',
+  zoneText: {
+    flow: { label: 'SMR Reward', description: 'Calm & Alert' },
+    stabilizing: { label: 'Building', description: 'Near Threshold' },
+    noise: { label: 'Below Threshold', description: 'Keep Still' },
+  },
+  inhibits: [
+    { key: 'theta', label: 'Theta' },
+    { key: 'highBeta', label: 'High Beta' },
+  ],
+  defaultSettings: DEFAULT_SETTINGS,
+  controls: [
+    {
+      key: 'smrThreshold',
+      label: 'SMR Reward Threshold',
+      type: 'range',
+      min: 0.01,
+      max: 0.2,
+      step: 0.005,
+      format: (value) => `${(value * 100).toFixed(1)}%`, // Half-percent steps
+      hint: 'Share of 1-30 Hz power in 12-15 Hz needed for the reward',
+    },
+    {
+      key: 'thetaInhibit',
+      label: 'Theta Inhibit',
+      type: 'range',
+      min: 0.1,
+      max: 0.6,
+      step: 0.01,
+      format: formatPercent,
+      hint: 'Reward is withheld while 4-8 Hz share is above this',
+    },
+    {
+      key: 'highBetaInhibit',
+      label: 'High Beta Inhibit',
+      type: 'range',
+      min: 0.05,
+      max: 0.4,
+      step: 0.01,
+      format: formatPercent,
+      hint: 'Reward is withheld while 20-30 Hz share is above this',
+    },
+    SUSTAIN_CONTROL,
+    HYSTERESIS_CONTROL,
+    ...DWELL_CONTROLS,
+    ...AUTO_THRESHOLD_CONTROLS,
+  ],
+  rewardThreshold: { key: 'smrThreshold', stricter: () => 1 },
+  createEvaluator,
+};
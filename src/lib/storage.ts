@@ -1,52 +1,121 @@
 // User and Session Storage
-// Persists data to localStorage with import/export support
+// Persists data to IndexedDB with import/export support
 
 import { v4 as uuidv4 } from 'uuid';
-import type { User, Session, SessionStats } from '../types';
-
-const STORAGE_KEYS = {
+import { openDatabase, runTransaction, STORES } from './database';
+import type { StoreName } from './database';
+import { isMindMonitorCSV, parseMindMonitorCSV } from './mind-monitor';
+import { encodeEDF } from './edf-export';
+import type { User, Session, SessionStats, RawRecording } from '../types';
+
+// Pre-IndexedDB localStorage keys, migrated once on first open
+const LEGACY_STORAGE_KEYS = {
   USERS: 'neuro-feedback-users',
   SESSIONS: 'neuro-feedback-sessions',
   CURRENT_USER: 'neuro-feedback-current-user',
 };
 
+const SETTINGS_KEYS = {
+  CURRENT_USER: 'currentUserId',
+};
+
+/**
+ * Storage failure with a user-facing message
+ * Carries the session that could not be (fully) saved so it can still be exported
+ */
+export class StorageError extends Error {
+  session?: Session;
+
+  constructor(message: string, session?: Session) {
+    super(message);
+    this.name = 'StorageError';
+    this.session = session;
+  }
+}
+
 /**
  * Storage Manager for Users and Sessions
  */
 export class StorageManager {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
   /**
-   * Get all users
+   * Open the database (once), moving any legacy localStorage data across
    */
-  getUsers(): User[] {
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().then(async (db) => {
+        await this.migrateLegacyStorage(db);
+        // Ask the browser not to evict session data under storage pressure
+        navigator.storage?.persist?.().catch(() => {});
+        return db;
+      });
+      // Allow a retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * One-time move of neuro-feedback-* localStorage keys into IndexedDB
+   * Keys are only removed after the data has been committed
+   */
+  private async migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+    const keys = Object.values(LEGACY_STORAGE_KEYS);
+    if (keys.every((key) => localStorage.getItem(key) === null)) return;
+
     try {
-      const data = localStorage.getItem(STORAGE_KEYS.USERS);
-      return data ? JSON.parse(data) : [];
-    } catch {
-      console.error('[Storage] Failed to parse users');
-      return [];
+      const users = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEYS.USERS) || '[]') as User[];
+      const sessions = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEYS.SESSIONS) || '[]') as Session[];
+      const currentUserId = localStorage.getItem(LEGACY_STORAGE_KEYS.CURRENT_USER);
+
+      await runTransaction(
+        db,
+        [STORES.USERS, STORES.SESSIONS, STORES.RECORDINGS, STORES.SETTINGS],
+        'readwrite',
+        (tx) => {
+          users.forEach((user) => tx.objectStore(STORES.USERS).put(user));
+          sessions.forEach((session) => putSession(tx, session));
+          if (currentUserId) {
+            tx.objectStore(STORES.SETTINGS).put(currentUserId, SETTINGS_KEYS.CURRENT_USER);
+          }
+        }
+      );
+
+      keys.forEach((key) => localStorage.removeItem(key));
+      console.log(`[Storage] Migrated ${users.length} users and ${sessions.length} sessions from localStorage`);
+    } catch (error) {
+      // Leave the legacy keys in place so the migration is retried next time
+      console.error('[Storage] localStorage migration failed:', error);
     }
   }
 
   /**
-   * Save users
+   * Get all users
    */
-  private saveUsers(users: User[]): void {
-    localStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+  async getUsers(): Promise<User[]> {
+    const db = await this.db();
+    const users = await runTransaction(db, [STORES.USERS], 'readonly', (tx) =>
+      tx.objectStore(STORES.USERS).getAll()
+    );
+    return (users as User[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   }
 
   /**
    * Create a new user
    */
-  createUser(name: string): User {
+  async createUser(name: string): Promise<User> {
     const user: User = {
       id: uuidv4(),
       name,
       createdAt: new Date().toISOString(),
     };
 
-    const users = this.getUsers();
-    users.push(user);
-    this.saveUsers(users);
+    await this.write([STORES.USERS], 'create this user', (tx) => {
+      tx.objectStore(STORES.USERS).put(user);
+    });
 
     return user;
   }
@@ -54,204 +123,333 @@ export class StorageManager {
   /**
    * Get user by ID
    */
-  getUser(userId: string): User | null {
-    const users = this.getUsers();
-    return users.find((u) => u.id === userId) || null;
+  async getUser(userId: string): Promise<User | null> {
+    const db = await this.db();
+    const user = await runTransaction(db, [STORES.USERS], 'readonly', (tx) =>
+      tx.objectStore(STORES.USERS).get(userId)
+    );
+    return (user as User | undefined) ?? null;
   }
 
   /**
    * Update user
    */
-  updateUser(userId: string, updates: Partial<User>): User | null {
-    const users = this.getUsers();
-    const index = users.findIndex((u) => u.id === userId);
+  async updateUser(userId: string, updates: Partial<User>): Promise<User | null> {
+    const user = await this.getUser(userId);
+    if (!user) return null;
 
-    if (index === -1) return null;
+    const updated = { ...user, ...updates };
+    await this.write([STORES.USERS], 'update this user', (tx) => {
+      tx.objectStore(STORES.USERS).put(updated);
+    });
 
-    users[index] = { ...users[index], ...updates };
-    this.saveUsers(users);
-
-    return users[index];
+    return updated;
   }
 
   /**
    * Delete user and their sessions
    */
-  deleteUser(userId: string): void {
-    const users = this.getUsers().filter((u) => u.id !== userId);
-    this.saveUsers(users);
-
-    // Also delete user's sessions
-    const sessions = this.getAllSessions().filter((s) => s.userId !== userId);
-    localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
-
-    // Clear current user if deleted
-    if (this.getCurrentUserId() === userId) {
-      this.setCurrentUser(null);
-    }
+  async deleteUser(userId: string): Promise<void> {
+    await this.write(
+      [STORES.USERS, STORES.SESSIONS, STORES.RECORDINGS, STORES.SETTINGS],
+      'delete this user',
+      (tx) => {
+        tx.objectStore(STORES.USERS).delete(userId);
+
+        // Also delete user's sessions and their recordings
+        const sessions = tx.objectStore(STORES.SESSIONS);
+        const keys = sessions.index('userId').getAllKeys(userId);
+        keys.onsuccess = () => {
+          for (const id of keys.result) {
+            sessions.delete(id);
+            tx.objectStore(STORES.RECORDINGS).delete(id);
+          }
+        };
+
+        // Clear current user if deleted
+        const settings = tx.objectStore(STORES.SETTINGS);
+        const current = settings.get(SETTINGS_KEYS.CURRENT_USER);
+        current.onsuccess = () => {
+          if (current.result === userId) {
+            settings.delete(SETTINGS_KEYS.CURRENT_USER);
+          }
+        };
+      }
+    );
   }
 
   /**
    * Get current user ID
    */
-  getCurrentUserId(): string | null {
-    return localStorage.getItem(STORAGE_KEYS.CURRENT_USER);
+  async getCurrentUserId(): Promise<string | null> {
+    const db = await this.db();
+    const id = await runTransaction(db, [STORES.SETTINGS], 'readonly', (tx) =>
+      tx.objectStore(STORES.SETTINGS).get(SETTINGS_KEYS.CURRENT_USER)
+    );
+    return (id as string | undefined) ?? null;
   }
 
   /**
    * Set current user
    */
-  setCurrentUser(userId: string | null): void {
-    if (userId) {
-      localStorage.setItem(STORAGE_KEYS.CURRENT_USER, userId);
-    } else {
-      localStorage.removeItem(STORAGE_KEYS.CURRENT_USER);
-    }
+  async setCurrentUser(userId: string | null): Promise<void> {
+    await this.write([STORES.SETTINGS], 'remember the selected user', (tx) => {
+      const settings = tx.objectStore(STORES.SETTINGS);
+      if (userId) {
+        settings.put(userId, SETTINGS_KEYS.CURRENT_USER);
+      } else {
+        settings.delete(SETTINGS_KEYS.CURRENT_USER);
+      }
+    });
   }
 
   /**
    * Get current user
    */
-  getCurrentUser(): User | null {
-    const userId = this.getCurrentUserId();
+  async getCurrentUser(): Promise<User | null> {
+    const userId = await this.getCurrentUserId();
     return userId ? this.getUser(userId) : null;
   }
 
   // ============== Sessions ==============
 
   /**
-   * Get all sessions
-   */
-  getAllSessions(): Session[] {
-    try {
-      const data = localStorage.getItem(STORAGE_KEYS.SESSIONS);
-      return data ? JSON.parse(data) : [];
-    } catch {
-      console.error('[Storage] Failed to parse sessions');
-      return [];
-    }
-  }
-
-  /**
-   * Save sessions
+   * Get all sessions (without raw recordings)
    */
-  private saveSessions(sessions: Session[]): void {
-    localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessions));
+  async getAllSessions(): Promise<Session[]> {
+    const db = await this.db();
+    return runTransaction(db, [STORES.SESSIONS], 'readonly', (tx) =>
+      tx.objectStore(STORES.SESSIONS).getAll()
+    );
   }
 
   /**
-   * Get sessions for a user
+   * Get sessions for a user (without raw recordings)
    */
-  getUserSessions(userId: string): Session[] {
-    return this.getAllSessions()
-      .filter((s) => s.userId === userId)
-      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  async getUserSessions(userId: string): Promise<Session[]> {
+    const db = await this.db();
+    const sessions: Session[] = await runTransaction(db, [STORES.SESSIONS], 'readonly', (tx) =>
+      tx.objectStore(STORES.SESSIONS).index('userId').getAll(userId)
+    );
+    return sessions.sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
   }
 
   /**
    * Save a new session
+   * The summary and the raw recording are written separately, so a recording
+   * that does not fit still leaves the summary saved. On failure a
+   * StorageError carrying the unsaved session is thrown.
    */
-  saveSession(session: Omit<Session, 'id'>): Session {
+  async saveSession(session: Omit<Session, 'id'>): Promise<Session> {
     const newSession: Session = {
       ...session,
       id: uuidv4(),
     };
+    const { rawRecording, ...summary } = newSession;
 
-    const sessions = this.getAllSessions();
-    sessions.push(newSession);
-    this.saveSessions(sessions);
+    try {
+      await this.write([STORES.SESSIONS], 'save this session', (tx) => {
+        tx.objectStore(STORES.SESSIONS).put(summary);
+      });
+    } catch (error) {
+      throw new StorageError((error as Error).message, newSession);
+    }
+
+    if (rawRecording) {
+      try {
+        await this.write([STORES.RECORDINGS], 'store the raw EEG recording', (tx) => {
+          tx.objectStore(STORES.RECORDINGS).put(rawRecording, newSession.id);
+        });
+      } catch (error) {
+        throw new StorageError(
+          `${(error as Error).message} The session summary was saved - export the recording from this screen to keep it.`,
+          newSession
+        );
+      }
+    }
 
     return newSession;
   }
 
   /**
-   * Get session by ID
+   * Get session by ID, including its raw recording if stored
    */
-  getSession(sessionId: string): Session | null {
-    return this.getAllSessions().find((s) => s.id === sessionId) || null;
+  async getSession(sessionId: string): Promise<Session | null> {
+    const db = await this.db();
+    const [session, rawRecording] = await Promise.all([
+      runTransaction(db, [STORES.SESSIONS], 'readonly', (tx) =>
+        tx.objectStore(STORES.SESSIONS).get(sessionId)
+      ) as Promise<Session | undefined>,
+      this.getRecording(sessionId),
+    ]);
+
+    if (!session) return null;
+    return rawRecording ? { ...session, rawRecording } : session;
+  }
+
+  /**
+   * Get the raw recording for a session
+   */
+  async getRecording(sessionId: string): Promise<RawRecording | null> {
+    const db = await this.db();
+    const recording = await runTransaction(db, [STORES.RECORDINGS], 'readonly', (tx) =>
+      tx.objectStore(STORES.RECORDINGS).get(sessionId)
+    );
+    return (recording as RawRecording | undefined) ?? null;
   }
 
   /**
    * Delete session
    */
-  deleteSession(sessionId: string): void {
-    const sessions = this.getAllSessions().filter((s) => s.id !== sessionId);
-    this.saveSessions(sessions);
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.write([STORES.SESSIONS, STORES.RECORDINGS], 'delete this session', (tx) => {
+      tx.objectStore(STORES.SESSIONS).delete(sessionId);
+      tx.objectStore(STORES.RECORDINGS).delete(sessionId);
+    });
+  }
+
+  /**
+   * Run a write transaction, turning failures (notably a full disk quota)
+   * into errors with a user-facing message
+   */
+  private async write(
+    stores: StoreName[],
+    action: string,
+    fn: (tx: IDBTransaction) => void
+  ): Promise<void> {
+    const db = await this.db();
+    try {
+      await runTransaction(db, stores, 'readwrite', fn);
+    } catch (error) {
+      console.error(`[Storage] Failed to ${action}:`, error);
+      if ((error as DOMException)?.name === 'QuotaExceededError') {
+        throw new StorageError(
+          `Browser storage is full - could not ${action}. Export and delete old sessions to free up space.`
+        );
+      }
+      throw new StorageError(`Could not ${action}: ${(error as Error)?.message ?? error}`);
+    }
   }
 
   // ============== Import/Export ==============
 
   /**
    * Export all data for a user (or all users if no ID provided)
+   * Raw recordings are left out - use downloadSession or downloadEDF for those
    */
-  exportData(userId?: string): string {
+  async exportData(userId?: string): Promise<string> {
     const data: { users: User[]; sessions: Session[] } = {
-      users: userId ? this.getUsers().filter((u) => u.id === userId) : this.getUsers(),
-      sessions: userId ? this.getUserSessions(userId) : this.getAllSessions(),
+      users: userId ? (await this.getUsers()).filter((u) => u.id === userId) : await this.getUsers(),
+      sessions: userId ? await this.getUserSessions(userId) : await this.getAllSessions(),
     };
 
     return JSON.stringify(data, null, 2);
   }
 
   /**
-   * Import data from JSON string
+   * Import data from a JSON export or a Mind Monitor CSV recording
+   * CSV recordings become a session for userId
    * Returns count of imported items
    */
-  importData(jsonString: string): { users: number; sessions: number } {
+  async importData(jsonString: string, userId?: string): Promise<{ users: number; sessions: number }> {
+    if (isMindMonitorCSV(jsonString)) {
+      return this.importMindMonitorCSV(jsonString, userId);
+    }
+
+    let data: { users?: User[]; sessions?: Session[] };
     try {
-      const data = JSON.parse(jsonString) as { users?: User[]; sessions?: Session[] };
+      data = JSON.parse(jsonString);
+    } catch (error) {
+      console.error('[Storage] Import failed:', error);
+      throw new Error('Invalid import data format');
+    }
 
-      let usersImported = 0;
-      let sessionsImported = 0;
+    const db = await this.db();
+    const [existingUserIds, existingSessionIds] = await Promise.all([
+      runTransaction(db, [STORES.USERS], 'readonly', (tx) => tx.objectStore(STORES.USERS).getAllKeys()),
+      runTransaction(db, [STORES.SESSIONS], 'readonly', (tx) => tx.objectStore(STORES.SESSIONS).getAllKeys()),
+    ]);
+
+    // Skip duplicates by ID
+    const userIds = new Set(existingUserIds);
+    const sessionIds = new Set(existingSessionIds);
+    const newUsers = Array.isArray(data.users) ? data.users.filter((u) => !userIds.has(u.id)) : [];
+    const newSessions = Array.isArray(data.sessions)
+      ? data.sessions.filter((s) => !sessionIds.has(s.id))
+      : [];
+
+    await this.write([STORES.USERS, STORES.SESSIONS, STORES.RECORDINGS], 'import this data', (tx) => {
+      newUsers.forEach((user) => tx.objectStore(STORES.USERS).put(user));
+      newSessions.forEach((session) => putSession(tx, session));
+    });
+
+    return { users: newUsers.length, sessions: newSessions.length };
+  }
 
-      // Import users (skip duplicates by ID)
-      if (data.users && Array.isArray(data.users)) {
-        const existingUsers = this.getUsers();
-        const existingIds = new Set(existingUsers.map((u) => u.id));
+  /**
+   * Import a Mind Monitor CSV recording as a session
+   */
+  private async importMindMonitorCSV(
+    csv: string,
+    userId?: string
+  ): Promise<{ users: number; sessions: number }> {
+    if (!userId) {
+      throw new Error('Select a user profile before importing Mind Monitor data');
+    }
 
-        for (const user of data.users) {
-          if (!existingIds.has(user.id)) {
-            existingUsers.push(user);
-            usersImported++;
-          }
-        }
+    const session = parseMindMonitorCSV(csv, userId);
 
-        this.saveUsers(existingUsers);
-      }
+    // Skip recordings that were already imported for this user
+    const existing = await this.getUserSessions(userId);
+    if (existing.some((s) => s.startTime === session.startTime)) {
+      return { users: 0, sessions: 0 };
+    }
 
-      // Import sessions (skip duplicates by ID)
-      if (data.sessions && Array.isArray(data.sessions)) {
-        const existingSessions = this.getAllSessions();
-        const existingIds = new Set(existingSessions.map((s) => s.id));
+    await this.saveSession(session);
+    return { users: 0, sessions: 1 };
+  }
 
-        for (const session of data.sessions) {
-          if (!existingIds.has(session.id)) {
-            existingSessions.push(session);
-            sessionsImported++;
-          }
-        }
+  /**
+   * Download data as JSON file
+   */
+  async downloadExport(userId?: string): Promise<void> {
+    const data = await this.exportData(userId);
+    this.download(
+      new Blob([data], { type: 'application/json' }),
+      `neuro-feedback-export-${new Date().toISOString().split('T')[0]}.json`
+    );
+  }
 
-        this.saveSessions(existingSessions);
-      }
+  /**
+   * Download a single session, including its raw recording, as a JSON file
+   */
+  downloadSession(session: Session): void {
+    this.download(
+      new Blob([JSON.stringify(session)], { type: 'application/json' }),
+      `neuro-feedback-session-${session.startTime.split('T')[0]}-${session.id.slice(0, 8)}.json`
+    );
+  }
 
-      return { users: usersImported, sessions: sessionsImported };
-    } catch (error) {
-      console.error('[Storage] Import failed:', error);
-      throw new Error('Invalid import data format');
-    }
+  /**
+   * Download a session's raw EEG as an EDF+ file with event annotations
+   */
+  downloadEDF(session: Session, patientName?: string): void {
+    const data = encodeEDF(session, patientName);
+    this.download(
+      new Blob([data as BlobPart], { type: 'application/octet-stream' }),
+      `neuro-feedback-session-${session.startTime.split('T')[0]}-${session.id.slice(0, 8)}.edf`
+    );
   }
 
   /**
-   * Download data as JSON file
+   * Save a blob through a temporary download link
    */
-  downloadExport(userId?: string): void {
-    const data = this.exportData(userId);
-    const blob = new Blob([data], { type: 'application/json' });
+  private download(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
 
     const a = document.createElement('a');
     a.href = url;
-    a.download = `neuro-feedback-export-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -261,10 +459,29 @@ export class StorageManager {
   /**
    * Clear all data
    */
-  clearAll(): void {
-    localStorage.removeItem(STORAGE_KEYS.USERS);
-    localStorage.removeItem(STORAGE_KEYS.SESSIONS);
-    localStorage.removeItem(STORAGE_KEYS.CURRENT_USER);
+  async clearAll(): Promise<void> {
+    await this.write(
+      [STORES.USERS, STORES.SESSIONS, STORES.RECORDINGS, STORES.SETTINGS],
+      'clear stored data',
+      (tx) => {
+        tx.objectStore(STORES.USERS).clear();
+        tx.objectStore(STORES.SESSIONS).clear();
+        tx.objectStore(STORES.RECORDINGS).clear();
+        tx.objectStore(STORES.SETTINGS).clear();
+      }
+    );
+    Object.values(LEGACY_STORAGE_KEYS).forEach((key) => localStorage.removeItem(key));
+  }
+}
+
+/**
+ * Write a session within a transaction, keeping its raw recording in its own store
+ */
+function putSession(tx: IDBTransaction, session: Session): void {
+  const { rawRecording, ...summary } = session;
+  tx.objectStore(STORES.SESSIONS).put(summary);
+  if (rawRecording) {
+    tx.objectStore(STORES.RECORDINGS).put(rawRecording, session.id);
   }
 }
 
@@ -275,9 +492,9 @@ export const storage = new StorageManager();
  * Calculate session stats
  */
 export function calculateSessionStats(session: Session): SessionStats {
-  const totalLength = session.duration;
+  const totalLength = connectedTime(session);
   const flowStatePercent =
-    session.duration > 0 ? (session.flowStateTime / session.duration) * 100 : 0;
+    totalLength > 0 ? (session.flowStateTime / totalLength) * 100 : 0;
 
   // Calculate achievement score based on performance
   let achievementScore: string;
@@ -302,6 +519,18 @@ export function calculateSessionStats(session: Session): SessionStats {
   };
 }
 
+/**
+ * Time with the headband connected up to a point in the session (default: its
+ * end), leaving out any gaps while the signal was lost
+ */
+export function connectedTime(session: Session, time: number = session.duration): number {
+  const lost = (session.gaps ?? []).reduce(
+    (sum, gap) => sum + Math.max(0, Math.min(gap.end, time) - gap.start),
+    0
+  );
+  return Math.max(0, time - lost);
+}
+
 /**
  * Format milliseconds to MM:SS
  */
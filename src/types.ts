@@ -4,6 +4,13 @@ export interface User {
   id: string;
   name: string;
   createdAt: string;
+  bandTable?: BandDefinition[]; // absent = the standard five bands
+  iaf?: IAFCalibration; // Individual alpha frequency, shifts theta/alpha/beta edges
+}
+
+export interface IAFCalibration {
+  frequency: number; // Hz
+  measuredAt: string;
 }
 
 export interface Session {
@@ -16,6 +23,77 @@ export interface Session {
   longestStreak: number; // ms longest continuous
   avgCoherence: number; // 0-1
   coherenceHistory: number[]; // time-series for graph
+  rawRecording?: RawRecording; // full-rate sensor data, if captured
+  events?: SessionEvent[]; // flow/reward transitions, protocol events and user markers
+  protocol?: SessionProtocol; // absent on older sessions, which used Quiet Power
+  baseline?: SessionBaseline; // recorded before training, if enabled
+  thresholds?: ThresholdChange[]; // adaptive threshold over time, in auto-threshold mode
+  heartRateHistory?: (number | null)[]; // bpm at 1 Hz (null while no beats), with a PPG sensor
+  componentHistory?: Record<string, (number | null)[]>; // Composite score parts (0-1) at 1 Hz, keyed by component
+  gaps?: SessionGap[]; // headband signal lost - not scored or counted in the stats
+}
+
+export interface SessionGap {
+  start: number; // ms since session start
+  end: number;
+}
+
+export interface ThresholdChange {
+  time: number; // ms since session start
+  value: number; // new value of the protocol's reward threshold setting
+}
+
+export type SessionEventType =
+  | 'flow_enter'
+  | 'flow_exit'
+  | 'reward_on'
+  | 'reward_off'
+  | 'crossover'
+  | 'baseline'
+  | 'marker'
+  | 'signal_lost'
+  | 'signal_restored';
+
+export interface SessionEvent {
+  time: number; // ms since session start
+  type: SessionEventType;
+  label?: string;
+}
+
+// Raw sensor capture for a session
+// All timestamps are ms relative to startTime
+export interface RawEEGChannel {
+  timestamps: number[];
+  samples: number[]; // µV
+}
+
+export interface RawRecording {
+  sampleRate: number; // Hz (EEG)
+  channelNames: string[]; // e.g. ['TP9', 'AF7', 'AF8', 'TP10']
+  startTime: number; // epoch ms
+  eeg: RawEEGChannel[];
+  accelerometer: {
+    timestamps: number[];
+    x: number[];
+    y: number[];
+    z: number[];
+  };
+  telemetry: {
+    timestamps: number[];
+    batteryLevel: number[];
+    temperature: number[];
+  };
+  bandPowers?: BandPowerSeries; // per-electrode estimates (Bluetooth pipeline only)
+}
+
+// One value per spectral update for each band
+export type BandSeries = Record<keyof BrainwaveBands, number[]>;
+
+// Per-electrode band powers, indexed like RawRecording.channelNames
+export interface BandPowerSeries {
+  timestamps: number[];
+  relative: BandSeries[]; // 0-1
+  db: BandSeries[]; // absolute power in dB
 }
 
 export interface BrainwaveBands {
@@ -26,6 +104,19 @@ export interface BrainwaveBands {
   gamma: number;
 }
 
+// A frequency band in a user's band table. The five BrainwaveBands keys are
+// core bands (edges adjustable, always present); any other key is an extra
+export interface BandDefinition {
+  key: string;
+  name: string; // e.g. "Low Alpha"
+  symbol: string; // Short label for the live bars, e.g. "α₁"
+  low: number; // Hz
+  high: number; // Hz
+}
+
+// Values keyed by BandDefinition.key
+export type BandValues = Record<string, number>;
+
 // Absolute power in dB (10 * log10(µV²/Hz))
 export interface BrainwaveBandsDb {
   delta: number;
@@ -35,10 +126,23 @@ export interface BrainwaveBandsDb {
   gamma: number;
 }
 
+// Heart rate and variability from the PPG sensor (Muse 2 / Muse S)
+export interface HeartMetrics {
+  heartRate: number;      // bpm, averaged over the last 10 s
+  ibi: number;            // Latest beat-to-beat interval (ms)
+  rmssd: number | null;   // ms over the last minute - null until enough beats
+  hfPower: number | null; // ms², 0.15-0.4 Hz - null until 64 s of beats
+  coherence: number | null; // 0-1, share of HRV power at the 0.04-0.26 Hz peak - null until 64 s of beats
+}
+
+// Head posture from the accelerometer's gravity direction
+export type HeadPosture = 'unknown' | 'upright' | 'slumped' | 'lying';
+
 export interface MuseState {
   connected: boolean;
-  connectionMode: 'bluetooth' | 'osc' | null;
+  connectionMode: 'bluetooth' | 'osc' | 'replay' | 'simulator' | null;
   deviceName: string | null;
+  reconnecting: boolean;            // Bluetooth dropped - retrying the last paired headband
   touching: boolean;
   connectionQuality: number;
   batteryLevel: number;             // Battery percentage (0-100), -1 if unknown
@@ -46,21 +150,80 @@ export interface MuseState {
   bandsSmooth: BrainwaveBands;
   bandsDb: BrainwaveBandsDb;        // Absolute power in dB
   bandsDbSmooth: BrainwaveBandsDb;  // Smoothed dB values
+  channelBands: BrainwaveBands[];     // Smoothed relative power per electrode [TP9, AF7, AF8, TP10]
+  channelBandsDb: BrainwaveBandsDb[]; // Smoothed dB per electrode [TP9, AF7, AF8, TP10]
+  configuredBands: BandValues;          // Smoothed relative power for every band in the table
+  configuredBandsDb: BandValues;        // Smoothed dB for every band in the table
+  channelConfiguredBandsDb: BandValues[]; // Smoothed dB per electrode for every band in the table
+  artifact: boolean;                    // Blink, clench or other artifact in the current analysis window
+  motion: number;                       // Head motion (0-1), gravity removed and calibrated to the resting noise floor
+  posture: HeadPosture;
+  heart: HeartMetrics | null;           // null without a PPG sensor or a recent beat
   relaxationIndex: number;
   meditationIndex: number;
   focusIndex: number;
 }
 
-export interface FlowState {
-  isActive: boolean;
+// Neurofeedback protocols
+export type ProtocolName = 'quiet_power' | 'frontal_asymmetry' | 'smr' | 'alpha_theta' | 'cardiac_coherence' | 'mind_body';
+
+// Protocol parameters - every protocol has a sustainedMs rule
+export type ProtocolSettings = { sustainedMs: number } & Record<string, number | string>;
+
+// Result of running a protocol on the latest data
+export interface ProtocolState {
+  isActive: boolean; // Reward condition held for the sustain time
   sustainedMs: number;
-  betaAlphaRatio: number;
-  signalVariance: number;
-  noiseLevel: number;
+  score: number; // 0-1 for the coherence graph (0.7 = reward threshold line)
+  signalValid: boolean; // Inputs good enough to trust the score
+  rewardValid: boolean; // Contact good enough to sound the reward (can be stricter than signalValid)
+  metrics: Record<string, number>; // Protocol-specific values (ratios, variance, ...)
+  inhibits: Record<string, boolean>; // Inhibit key -> currently over its threshold
+  cues: Record<string, boolean>; // Cue key -> currently on (sounds when it switches on)
+  components: Record<string, ScoreComponent>; // Composite score parts, keyed by component
+  scores: Record<string, number>; // Feature scores (0-1) behind the score, for diagnostics
+  gate: string | null; // Why the score is held down or the reward withheld (null if nothing is)
+  threshold: number | null; // Adaptive threshold's current value (null if the protocol has none)
+}
+
+// One part of a composite protocol score
+export interface ScoreComponent {
+  score: number | null; // 0-1, null while its input is unavailable
+  weight: number; // Share of the composite (weights in use sum to 1)
 }
 
+// Protocol a session was scored with
+export interface SessionProtocol {
+  name: ProtocolName;
+  label: string;
+  settings: ProtocolSettings;
+}
+
+// Resting baseline recorded at the start of a session
+export type BaselinePhase = 'eyes_open' | 'eyes_closed';
+
+export interface BandStats {
+  mean: number;
+  sd: number;
+}
+
+export type BandStatsTable = Record<string, BandStats>; // Keyed by band table key
+
+export interface SessionBaseline {
+  reference: BaselinePhase; // Phase the feedback z-scores are relative to
+  phases: Record<BaselinePhase, BandStatsTable>; // Relative band power statistics
+}
+
+// Coherence graph zones, with optional per-protocol wording
+export type CoherenceZone = 'flow' | 'stabilizing' | 'noise';
+
+export type CoherenceZoneText = Partial<Record<CoherenceZone, { label: string; description: string }>>;
+
 export type EntrainmentType = 'binaural' | 'isochronic' | 'none';
 
+// Short tones played by protocols on top of the continuous reward
+export type RewardCue = 'alpha' | 'theta' | 'crossover' | 'chime';
+
 export interface AudioSettings {
   entrainmentType: EntrainmentType;
   entrainmentEnabled: boolean;
@@ -69,10 +232,13 @@ export interface AudioSettings {
   rewardVolume: number;
 }
 
-// Threshold settings for Flow State detection
-export interface ThresholdSettings {
-  coherenceThreshold: number; // 0-1, default 0.7 (70%)
-  timeThreshold: number; // ms, default 5000 (5 seconds)
+// Signal filtering applied to raw EEG before band power estimation
+export type NotchFrequency = 50 | 60;
+
+export interface FilterSettings {
+  notchFrequency: NotchFrequency | null; // mains frequency, null = off
+  highPass: number; // Hz
+  lowPass: number; // Hz
 }
 
 // Binaural beat presets